@@ -1,7 +1,7 @@
 "use client";
 
 import { useState, useEffect, useMemo, useCallback } from "react";
-import { Play, Square, Users, BarChart3, Clock, Trophy, Wifi, Copy, Check, LogOut } from "lucide-react";
+import { Play, Square, Users, BarChart3, Clock, Trophy, Wifi, Copy, Check, LogOut, ListOrdered, UserCheck, X, Pause, RotateCcw, Pencil, Trash2, ArrowUp, ArrowDown, Plus, Upload, Download, Printer, Monitor, ExternalLink } from "lucide-react";
 import { io, Socket } from "socket.io-client";
 import QRCode from "qrcode";
 import {
@@ -9,10 +9,43 @@ import {
   Category,
   AdminDashboardState,
   CategoryResult,
+  VotingMode,
+  RunoffRound,
+  CategoryRound,
+  IdentityClaim,
+  CategoryDraft,
+  EventImportPreview,
+  EventImportMode,
+  EventImportResult,
+  StageState,
+  StageScreen,
+  RevealPlacing,
+  InvitesUpdate,
+  TurnoutUpdate,
+  PresenceUpdate,
+  SchemaStatus,
 } from "../../types";
-import { SOUNDS } from "../../types/constants";
-import { ResultsReveal, AdminLogin } from "../components";
+import {
+  SOUNDS,
+  DEFAULT_MAX_SELECTIONS,
+  DEFAULT_VOTING_DURATION,
+  COUNTDOWN_WARNING_SECONDS,
+} from "../../types/constants";
+import { ResultsReveal, AdminLogin, ConfirmationModal, CategoryEditor, EventImport, InviteManager, TurnoutTracker } from "../components";
 import { getServerUrl, getParticipantUrl, initializeServerUrl } from "../utils/getServerUrl";
+import {
+  getSecondsLeft,
+  getSessionSecondsLeft,
+  syncServerClock,
+} from "../utils/serverClock";
+import {
+  AdminSession,
+  adminFetch,
+  endAdminSession,
+  getStoredAdminSession,
+  logoutAdmin,
+  onAdminSessionEnded,
+} from "../utils/adminAuth";
 
 // Legacy interfaces for backward compatibility during transition
 interface LegacyCategory {
@@ -23,6 +56,16 @@ interface LegacyCategory {
   completed: boolean;
   results?: Record<string, number>;
   revealed?: boolean;
+  revealedAt?: number;
+  votingMode?: VotingMode;
+  winner?: string | string[];
+  rounds?: RunoffRound[];
+  maxSelections?: number;
+  ballotCount?: number;
+  status?: Category["status"];
+  history?: CategoryRound[];
+  revealSteps?: RevealPlacing[];
+  revealedPlaces?: RevealPlacing[];
 }
 
 interface LegacyVotingSession {
@@ -35,11 +78,28 @@ interface LegacyVotingSession {
   endTime: number;
   results: Record<string, number>;
   options: string[];
+  votingMode?: VotingMode;
+  maxSelections?: number;
+  parentCategoryId?: string;
+  runoffRound?: number;
+  phase?: VotingSession["phase"];
+  remainingTime?: number;
 }
 
+// What the Stage View panel says the projector is showing
+const STAGE_SCREEN_LABELS: Record<StageScreen, string> = {
+  idle: "Join screen",
+  voting: "Live category",
+  closed: "Voting closed",
+  "runner-up": "Runner-up reveal",
+  reveal: "Winner reveal",
+};
+
 export default function AdminPage() {
-  const [isAuthenticated, setIsAuthenticated] = useState<boolean>(false);
+  const [adminSession, setAdminSession] = useState<AdminSession | null>(null);
   const [isCheckingAuth, setIsCheckingAuth] = useState<boolean>(true);
+  const [logoutMessage, setLogoutMessage] = useState<string>("");
+  const [clockNow, setClockNow] = useState<number>(Date.now());
   const [socket, setSocket] = useState<Socket | null>(null);
   const [categories, setCategories] = useState<LegacyCategory[]>([]);
   const [currentSession, setCurrentSession] =
@@ -52,6 +112,11 @@ export default function AdminPage() {
     sessionPhase: "setup",
   });
   const [participantCount, setParticipantCount] = useState<number>(0);
+  const [presence, setPresence] = useState<PresenceUpdate>({
+    connected: 0,
+    away: 0,
+    joined: 0,
+  });
   const [timeLeft, setTimeLeft] = useState<number>(0);
   const [audioContext, setAudioContext] = useState<AudioContext | null>(null);
   const [revealedCategories, setRevealedCategories] = useState<Set<string>>(
@@ -61,30 +126,62 @@ export default function AdminPage() {
   const [participantUrl, setParticipantUrl] = useState<string>("");
   const [qrCodeDataUrl, setQrCodeDataUrl] = useState<string>("");
   const [copied, setCopied] = useState<boolean>(false);
+  const [votingModeOverrides, setVotingModeOverrides] = useState<
+    Record<string, VotingMode>
+  >({});
+  const [maxSelectionOverrides, setMaxSelectionOverrides] = useState<
+    Record<string, number>
+  >({});
+  const [defaultDuration, setDefaultDuration] = useState<number>(
+    DEFAULT_VOTING_DURATION
+  );
+  const [durationOverrides, setDurationOverrides] = useState<
+    Record<string, number>
+  >({});
+  const [identityClaims, setIdentityClaims] = useState<{
+    pending: IdentityClaim[];
+    confirmed: number;
+    rosterSize: number;
+  }>({ pending: [], confirmed: 0, rosterSize: 0 });
+  const [invites, setInvites] = useState<InvitesUpdate>({
+    enabled: false,
+    invites: [],
+  });
+  const [turnout, setTurnout] = useState<TurnoutUpdate>({
+    categoryId: null,
+    voted: 0,
+    total: 0,
+    waiting: [],
+    autoClose: false,
+  });
+  const [pendingReopen, setPendingReopen] = useState<LegacyCategory | null>(
+    null
+  );
+  const [editorState, setEditorState] = useState<{
+    category: LegacyCategory | null; // null while creating a new category
+  } | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<LegacyCategory | null>(
+    null
+  );
+  const [isImportOpen, setIsImportOpen] = useState<boolean>(false);
+  const [includeUnrevealed, setIncludeUnrevealed] = useState<boolean>(false);
+  const [stageState, setStageState] = useState<StageState>({ screen: "idle" });
+  const [schemaStatus, setSchemaStatus] = useState<SchemaStatus | null>(null);
 
-  // Check authentication on mount
+  // Check the stored session with the backend on mount
   useEffect(() => {
-    const checkAuth = () => {
-      if (typeof window === "undefined") return;
-
-      const authStatus = localStorage.getItem("admin_authenticated");
-      const authTime = localStorage.getItem("admin_auth_time");
-
-      // Check if authenticated and session is valid (24 hours)
-      if (authStatus === "true" && authTime) {
-        const timeDiff = Date.now() - parseInt(authTime, 10);
-        const hours24 = 24 * 60 * 60 * 1000;
-
-        if (timeDiff < hours24) {
-          setIsAuthenticated(true);
-        } else {
-          // Session expired, clear auth
-          localStorage.removeItem("admin_authenticated");
-          localStorage.removeItem("admin_auth_time");
-          setIsAuthenticated(false);
+    const checkAuth = async () => {
+      const stored = getStoredAdminSession();
+      if (stored) {
+        try {
+          await initializeServerUrl();
+          const response = await adminFetch("/api/admin/session");
+          const data = await response.json();
+          setAdminSession({ token: stored.token, expiresAt: data.expiresAt });
+        } catch (error) {
+          // adminFetch has already cleared a rejected session
+          console.error("Error checking admin session:", error);
         }
-      } else {
-        setIsAuthenticated(false);
       }
 
       setIsCheckingAuth(false);
@@ -93,14 +190,34 @@ export default function AdminPage() {
     checkAuth();
   }, []);
 
-  const handleLogin = () => {
-    setIsAuthenticated(true);
+  // The backend can end the session at any time (expiry, logout in another tab)
+  useEffect(
+    () =>
+      onAdminSessionEnded((message) => {
+        setAdminSession(null);
+        setLogoutMessage(message);
+      }),
+    []
+  );
+
+  // Minute ticks for the session expiry shown in the header
+  useEffect(() => {
+    if (!adminSession) return;
+
+    const timer = setInterval(() => setClockNow(Date.now()), 30000);
+    return () => clearInterval(timer);
+  }, [adminSession]);
+
+  const handleLogin = (session: AdminSession) => {
+    setLogoutMessage("");
+    setClockNow(Date.now());
+    setAdminSession(session);
   };
 
-  const handleLogout = () => {
-    localStorage.removeItem("admin_authenticated");
-    localStorage.removeItem("admin_auth_time");
-    setIsAuthenticated(false);
+  const handleLogout = async () => {
+    setAdminSession(null);
+    setLogoutMessage("");
+    await logoutAdmin();
   };
 
   // Create "Who wants to be a millionaire" question reveal sound
@@ -140,10 +257,16 @@ export default function AdminPage() {
     init();
   }, []);
 
+  const adminToken = adminSession?.token;
+
   useEffect(() => {
+    if (!adminToken) return;
+
     const url = getServerUrl();
-    // Connect to socket with improved reconnection settings
+    // Connect to socket with improved reconnection settings; the token in
+    // the handshake is what lets this socket send admin events
     const newSocket = io(url, {
+      auth: { token: adminToken },
       reconnection: true,
       reconnectionAttempts: 10,
       reconnectionDelay: 2000,
@@ -178,6 +301,25 @@ export default function AdminPage() {
     // Join admin room
     newSocket.emit("join-admin");
 
+    newSocket.on("server-time", (serverTime) => {
+      syncServerClock(serverTime);
+    });
+
+    // The handshake is refused once the token has expired or been signed out
+    newSocket.on("connect_error", (error) => {
+      if (error.message === "Admin session expired") {
+        endAdminSession("Your admin session has expired. Please log in again.");
+      }
+    });
+
+    newSocket.on("admin-logged-out", ({ reason }) => {
+      endAdminSession(
+        reason === "logged-out"
+          ? "You were logged out from another window."
+          : "Your admin session has expired. Please log in again."
+      );
+    });
+
     // Listen for admin events
     newSocket.on("admin-status", (data) => {
       setCurrentSession(data.currentSession);
@@ -189,17 +331,34 @@ export default function AdminPage() {
 
     newSocket.on("category-started", (session) => {
       setCurrentSession(session);
-      setTimeLeft(30);
+      setTimeLeft(getSessionSecondsLeft(session));
       // Play question reveal sound
       playQuestionReveal();
       // Refresh categories to update completion status
       fetchCategories();
     });
 
+    newSocket.on("category-reopened", (session) => {
+      setCurrentSession(session);
+      setTimeLeft(getSessionSecondsLeft(session));
+      // Refresh categories so the card leaves the completed list
+      fetchCategories();
+    });
+
     newSocket.on("voting-results", (session) => {
       setCurrentSession(session);
     });
 
+    newSocket.on("category-paused", (session) => {
+      setCurrentSession(session);
+      setTimeLeft(getSessionSecondsLeft(session));
+    });
+
+    newSocket.on("category-resumed", (session) => {
+      setCurrentSession(session);
+      setTimeLeft(getSessionSecondsLeft(session));
+    });
+
     newSocket.on("category-stopped", (session) => {
       setCurrentSession(session);
       setTimeLeft(0);
@@ -211,6 +370,26 @@ export default function AdminPage() {
       setParticipantCount(count);
     });
 
+    newSocket.on("presence-update", (data: PresenceUpdate) => {
+      setPresence(data);
+    });
+
+    newSocket.on("identity-claims", (data) => {
+      setIdentityClaims(data);
+    });
+
+    newSocket.on("invites-update", (data: InvitesUpdate) => {
+      setInvites(data);
+    });
+
+    newSocket.on("turnout-update", (data: TurnoutUpdate) => {
+      setTurnout(data);
+    });
+
+    newSocket.on("stage-update", (state: StageState) => {
+      setStageState(state);
+    });
+
     newSocket.on("winner-revealed", (result: CategoryResult) => {
       setRevealedCategories((prev) => new Set([...prev, result.categoryId]));
 
@@ -227,44 +406,68 @@ export default function AdminPage() {
       fetchCategories();
     });
 
+    // The staged reveal's progress lives on the category
+    newSocket.on("runner-up-revealed", () => {
+      fetchCategories();
+    });
+
+    newSocket.on("winner-hidden", ({ categoryId }) => {
+      setRevealedCategories((prev) => {
+        const next = new Set(prev);
+        next.delete(categoryId);
+        return next;
+      });
+      fetchCategories();
+    });
+
     // Fetch categories
     fetchCategories();
+    fetchSchemaStatus();
 
     return () => {
-      if (newSocket && newSocket.connected) {
-        newSocket.disconnect();
-      }
+      newSocket.disconnect();
+      setSocket(null);
       document.removeEventListener("click", handleUserInteraction);
       document.removeEventListener("touchstart", handleUserInteraction);
     };
-  }, []);
+  }, [adminToken]);
 
-  // Timer countdown
+  // Timer countdown, recomputed from the server's endTime on every tick
   useEffect(() => {
-    if (timeLeft > 0 && currentSession?.active) {
-      const timer = setInterval(() => {
-        setTimeLeft((prev) => {
-          if (prev <= 1) {
-            return 0;
-          }
-          // Play tick-tock sound on each second
-          playTickTock();
-          return prev - 1;
-        });
-      }, 1000);
+    if (!currentSession?.active || !currentSession.endTime) return;
+
+    const endTime = currentSession.endTime;
+    setTimeLeft(getSecondsLeft(endTime));
+    const timer = setInterval(() => {
+      const secondsLeft = getSecondsLeft(endTime);
+      setTimeLeft(secondsLeft);
+      if (secondsLeft > 0) {
+        // Play tick-tock sound on each second
+        playTickTock();
+      }
+    }, 1000);
+
+    return () => clearInterval(timer);
+  }, [currentSession?.active, currentSession?.endTime]);
 
-      return () => clearInterval(timer);
+  const fetchSchemaStatus = useCallback(async () => {
+    try {
+      const response = await adminFetch("/api/schema-version");
+      if (response.ok) {
+        setSchemaStatus(await response.json());
+      }
+    } catch (error) {
+      console.error("Error fetching schema version:", error);
     }
-  }, [timeLeft, currentSession?.active]);
+  }, []);
 
   const fetchCategories = useCallback(async () => {
     try {
-      const url = getServerUrl();
-      const response = await fetch(`${url}/api/categories`);
+      const response = await adminFetch("/api/categories");
       const data = await response.json();
 
       // Fetch completed categories with results
-      const completedResponse = await fetch(`${url}/api/completed-categories`);
+      const completedResponse = await adminFetch("/api/completed-categories");
       const completedData = await completedResponse.json();
 
       // Merge categories with completion status and results
@@ -288,11 +491,18 @@ export default function AdminPage() {
           }
         }
 
+        // Prefer live server state: after a tie-break runoff the category's
+        // results are the runoff's, not every vote stored for the category
+        const liveResults =
+          category.results && Object.keys(category.results).length > 0
+            ? category.results
+            : undefined;
+
         return {
           ...category,
           options: parsedOptions,
-          completed: !!completed,
-          results: completed?.results || undefined,
+          completed: category.status === "active" ? false : !!completed,
+          results: liveResults || completed?.results || undefined,
           revealed:
             revealedCategories.has(category.id) || category.revealed || false,
         };
@@ -305,9 +515,19 @@ export default function AdminPage() {
   }, []);
 
   const startVoting = useCallback(
-    (categoryId: string) => {
+    (
+      categoryId: string,
+      votingMode?: VotingMode,
+      maxSelections?: number,
+      duration?: number
+    ) => {
       if (socket) {
-        socket.emit("start-category", { categoryId });
+        socket.emit("start-category", {
+          categoryId,
+          votingMode,
+          maxSelections,
+          duration,
+        });
       }
     },
     [socket]
@@ -322,12 +542,39 @@ export default function AdminPage() {
     [socket]
   );
 
+  const pauseVoting = useCallback(
+    (categoryId: string) => {
+      if (socket) {
+        socket.emit("pause-category", { categoryId });
+      }
+    },
+    [socket]
+  );
+
+  const resumeVoting = useCallback(
+    (categoryId: string) => {
+      if (socket) {
+        socket.emit("resume-category", { categoryId });
+      }
+    },
+    [socket]
+  );
+
   const endVoting = useCallback(() => {
     if (socket) {
       socket.emit("end-voting");
     }
   }, [socket]);
 
+  const setAutoClose = useCallback(
+    (enabled: boolean) => {
+      if (socket) {
+        socket.emit("set-auto-close", { enabled });
+      }
+    },
+    [socket]
+  );
+
   const revealWinner = useCallback(
     (categoryId: string) => {
       if (socket) {
@@ -337,6 +584,247 @@ export default function AdminPage() {
     [socket]
   );
 
+  const revealRunnerUp = useCallback(
+    (categoryId: string, places: number) => {
+      if (socket) {
+        socket.emit("reveal-runner-up", { categoryId, places });
+      }
+    },
+    [socket]
+  );
+
+  const showStageJoinScreen = useCallback(() => {
+    if (socket) {
+      socket.emit("set-stage-screen", { screen: "idle" });
+    }
+  }, [socket]);
+
+  const unrevealWinner = useCallback(
+    (categoryId: string) => {
+      if (socket) {
+        setRevealedCategories((prev) => {
+          const next = new Set(prev);
+          next.delete(categoryId);
+          return next;
+        });
+        socket.emit("unreveal-category", { categoryId });
+      }
+    },
+    [socket]
+  );
+
+  const confirmReopen = useCallback(() => {
+    if (socket && pendingReopen) {
+      socket.emit("reopen-category", {
+        categoryId: pendingReopen.id,
+        duration: durationOverrides[pendingReopen.id] || defaultDuration,
+      });
+    }
+    setPendingReopen(null);
+  }, [socket, pendingReopen, durationOverrides, defaultDuration]);
+
+  const resolveIdentityClaim = useCallback(
+    (participantId: string, approved: boolean) => {
+      if (socket) {
+        socket.emit("resolve-identity-claim", { participantId, approved });
+      }
+    },
+    [socket]
+  );
+
+  const requestInviteChange = useCallback(
+    async (path: string, method: string, body?: unknown) => {
+      const response = await adminFetch(`/api/invites${path}`, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update invites");
+      }
+      setInvites(data);
+    },
+    []
+  );
+
+  const generateInvites = useCallback(
+    () => requestInviteChange("", "POST"),
+    [requestInviteChange]
+  );
+
+  const revokeInvite = useCallback(
+    (token: string) =>
+      requestInviteChange(`/${encodeURIComponent(token)}/revoke`, "POST"),
+    [requestInviteChange]
+  );
+
+  const setInviteMode = useCallback(
+    (enabled: boolean) => requestInviteChange("/mode", "PUT", { enabled }),
+    [requestInviteChange]
+  );
+
+  const launchRunoff = useCallback(
+    (categoryId: string) => {
+      if (socket) {
+        setRevealedCategories((prev) => {
+          const next = new Set(prev);
+          next.delete(categoryId);
+          return next;
+        });
+        socket.emit("start-runoff", { categoryId, duration: defaultDuration });
+      }
+    },
+    [socket, defaultDuration]
+  );
+
+  // Category editor requests; other admins pick changes up from admin-status
+  const requestCategoryChange = useCallback(
+    async (path: string, method: string, body?: unknown) => {
+      const response = await adminFetch(`/api/categories${path}`, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update categories");
+      }
+      return data;
+    },
+    []
+  );
+
+  const saveCategory = useCallback(
+    async (draft: CategoryDraft) => {
+      const editing = editorState?.category;
+      await requestCategoryChange(
+        editing ? `/${editing.id}` : "",
+        editing ? "PUT" : "POST",
+        draft
+      );
+      setEditorState(null);
+      fetchCategories();
+    },
+    [editorState, requestCategoryChange, fetchCategories]
+  );
+
+  const duplicateCategory = useCallback(
+    async (categoryId: string) => {
+      try {
+        await requestCategoryChange(`/${categoryId}/duplicate`, "POST");
+        fetchCategories();
+      } catch (error) {
+        alert(error.message);
+      }
+    },
+    [requestCategoryChange, fetchCategories]
+  );
+
+  const moveCategory = useCallback(
+    async (categoryId: string, offset: number) => {
+      const ids = categories.map((category) => category.id);
+      const index = ids.indexOf(categoryId);
+      const target = index + offset;
+      if (index < 0 || target < 0 || target >= ids.length) return;
+
+      [ids[index], ids[target]] = [ids[target], ids[index]];
+      try {
+        await requestCategoryChange("/order", "PUT", { ids });
+        fetchCategories();
+      } catch (error) {
+        alert(error.message);
+      }
+    },
+    [categories, requestCategoryChange, fetchCategories]
+  );
+
+  const confirmDelete = useCallback(async () => {
+    if (!pendingDelete) return;
+
+    try {
+      await requestCategoryChange(`/${pendingDelete.id}`, "DELETE");
+      fetchCategories();
+    } catch (error) {
+      alert(error.message);
+    }
+    setPendingDelete(null);
+  }, [pendingDelete, requestCategoryChange, fetchCategories]);
+
+  const postImport = useCallback(async (path: string, body: unknown) => {
+    const response = await adminFetch(`/api/import${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || "Failed to import event");
+    }
+    return data;
+  }, []);
+
+  const previewImport = useCallback(
+    (content: string, format: EventImportPreview["format"]) =>
+      postImport("/preview", { content, format }) as Promise<EventImportPreview>,
+    [postImport]
+  );
+
+  const applyImport = useCallback(
+    async (
+      content: string,
+      format: EventImportPreview["format"],
+      mode: EventImportMode
+    ) => {
+      const result: EventImportResult = await postImport("", {
+        content,
+        format,
+        mode,
+      });
+      if (mode === "replace") {
+        setRevealedCategories(new Set());
+      }
+      fetchCategories();
+      return result;
+    },
+    [postImport, fetchCategories]
+  );
+
+  const exportResults = useCallback(
+    async (format: "csv" | "json" | "html") => {
+      try {
+        const response = await adminFetch(
+          `/api/export?format=${format}&includeUnrevealed=${includeUnrevealed}`
+        );
+
+        if (!response.ok) {
+          const data = await response.json();
+          alert(data.error || "Failed to export results");
+          return;
+        }
+
+        const fileUrl = URL.createObjectURL(await response.blob());
+        if (format === "html") {
+          // The report prints one award per page from the new tab
+          window.open(fileUrl, "_blank");
+        } else {
+          const link = document.createElement("a");
+          link.href = fileUrl;
+          link.download = `results.${format}`;
+          link.click();
+        }
+        setTimeout(() => URL.revokeObjectURL(fileUrl), 60000);
+      } catch (error) {
+        console.error("Error exporting results:", error);
+        alert("Error exporting results. Please check the console for details.");
+      }
+    },
+    [includeUnrevealed]
+  );
+
   const resetDatabase = useCallback(async () => {
     if (
       confirm(
@@ -344,8 +832,7 @@ export default function AdminPage() {
       )
     ) {
       try {
-        const url = getServerUrl();
-        const response = await fetch(`${url}/api/reset`, {
+        const response = await adminFetch("/api/reset", {
           method: "POST",
         });
 
@@ -375,6 +862,14 @@ export default function AdminPage() {
     return `${mins}:${secs.toString().padStart(2, "0")}`;
   }, []);
 
+  const isPaused = currentSession?.phase === "paused";
+
+  const isFinalCountdown =
+    !!currentSession?.active &&
+    !!currentSession.endTime &&
+    timeLeft > 0 &&
+    timeLeft <= COUNTDOWN_WARNING_SECONDS;
+
   const getWinner = useCallback(() => {
     if (!currentSession || Object.keys(currentSession.results).length === 0)
       return null;
@@ -515,23 +1010,51 @@ export default function AdminPage() {
   }
 
   // Show login if not authenticated
-  if (!isAuthenticated) {
-    return <AdminLogin onLogin={handleLogin} />;
+  if (!adminSession) {
+    return <AdminLogin onLogin={handleLogin} message={logoutMessage} />;
   }
 
+  const sessionMinutesLeft = Math.max(
+    0,
+    Math.floor((adminSession.expiresAt - clockNow) / 60000)
+  );
+
   return (
     <div className="min-h-screen pb-10">
       <div className="max-w-7xl mx-auto px-4 pt-8">
         {/* Header */}
         <header className="text-center mb-12 animate-slide-up relative">
-          <button
-            onClick={handleLogout}
-            className="absolute top-0 right-0 btn-secondary py-2 px-4 flex items-center gap-2 text-sm"
-            title="Logout"
-          >
-            <LogOut className="w-4 h-4" />
-            <span className="hidden sm:inline">Logout</span>
-          </button>
+          <div className="absolute top-0 right-0 flex flex-col items-end gap-1">
+            <button
+              onClick={handleLogout}
+              className="btn-secondary py-2 px-4 flex items-center gap-2 text-sm"
+              title="Logout"
+            >
+              <LogOut className="w-4 h-4" />
+              <span className="hidden sm:inline">Logout</span>
+            </button>
+            <span
+              className={`hidden sm:inline text-xs font-semibold ${sessionMinutesLeft < 15 ? "text-orange-500" : "text-slate-400"}`}
+              title={`Session expires ${new Date(adminSession.expiresAt).toLocaleString()}`}
+            >
+              Session ends in{" "}
+              {sessionMinutesLeft >= 60
+                ? `${Math.floor(sessionMinutesLeft / 60)}h ${sessionMinutesLeft % 60}m`
+                : `${sessionMinutesLeft}m`}
+            </span>
+            {schemaStatus && (
+              <span
+                className={`hidden sm:inline text-xs font-semibold ${schemaStatus.pending.length > 0 ? "text-orange-500" : "text-slate-400"}`}
+                title={schemaStatus.applied
+                  .map((migration) => `${migration.version}: ${migration.description}`)
+                  .join("\n")}
+              >
+                Schema v{schemaStatus.currentVersion}
+                {schemaStatus.pending.length > 0 &&
+                  ` · ${schemaStatus.pending.length} pending`}
+              </span>
+            )}
+          </div>
           <div className="inline-block p-3 rounded-2xl bg-white shadow-xl mb-6 border border-white/50">
             <Trophy className="w-10 h-10 text-gritfeat-green animate-float" />
           </div>
@@ -605,10 +1128,45 @@ export default function AdminPage() {
           </section>
         </div>
 
+        {/* Stage (Projector) Controls */}
+        <section className="glass-card p-6 mb-12 flex flex-col sm:flex-row items-center justify-between gap-4 animate-slide-up">
+          <div className="flex items-center gap-4">
+            <div className="w-12 h-12 bg-slate-100 rounded-2xl flex items-center justify-center text-slate-500">
+              <Monitor className="w-6 h-6" />
+            </div>
+            <div>
+              <h3 className="text-lg font-bold text-slate-800">Stage View</h3>
+              <p className="text-sm text-slate-500 font-medium">
+                Projector is showing:{" "}
+                <span className="font-bold text-gritfeat-green">
+                  {STAGE_SCREEN_LABELS[stageState.screen]}
+                </span>
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={showStageJoinScreen}
+              disabled={stageState.screen === "idle" || stageState.screen === "voting"}
+              className="btn-secondary py-2 px-4 text-sm disabled:opacity-50 disabled:pointer-events-none"
+            >
+              Show Join Screen
+            </button>
+            <a
+              href="/stage"
+              target="_blank"
+              rel="noopener noreferrer"
+              className="btn-primary py-2 px-4 text-sm flex items-center gap-2"
+            >
+              <ExternalLink className="w-4 h-4" /> Open Stage View
+            </a>
+          </div>
+        </section>
+
         {/* Stats Grid */}
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4 sm:gap-6 mb-12 animate-slide-up" style={{ animationDelay: '0.1s' }}>
           {[
-            { label: 'Live Participants', value: participantCount, icon: Users, color: 'blue' },
+            { label: 'Connected Now', value: participantCount, icon: Users, color: 'blue', detail: `${presence.joined} joined this event${presence.away ? ` · ${presence.away} away` : ''}` },
             { label: 'Award Categories', value: categories.length, icon: BarChart3, color: 'green' },
             { label: 'Time Control', value: currentSession?.active ? formatTime(timeLeft) : '--:--', icon: Clock, color: 'orange' },
             { label: 'Total Votes', value: categories.reduce((acc, cat) => acc + (cat.results ? Object.values(cat.results).reduce((a, b) => a + b, 0) : 0), 0), icon: Trophy, color: 'purple' }
@@ -623,10 +1181,79 @@ export default function AdminPage() {
               </div>
               <h4 className="text-3xl font-black text-slate-800 mb-1">{stat.value}</h4>
               <p className="text-xs font-bold text-slate-400 uppercase tracking-widest">{stat.label}</p>
+              {stat.detail && (
+                <p className="text-xs font-medium text-slate-400 mt-1">{stat.detail}</p>
+              )}
             </div>
           ))}
         </div>
 
+        {/* Voter Check-In */}
+        {identityClaims.rosterSize > 0 && (
+          <section className="glass-card p-6 sm:p-8 mb-12">
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+              <div>
+                <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+                  <UserCheck className="w-5 h-5 text-gritfeat-green" /> Voter Check-In
+                </h3>
+                <p className="text-sm text-slate-500 font-medium">
+                  {identityClaims.confirmed} of {identityClaims.rosterSize} colleagues confirmed
+                </p>
+              </div>
+              {identityClaims.pending.length > 1 && (
+                <button
+                  onClick={() => identityClaims.pending.forEach((claim) => resolveIdentityClaim(claim.participantId, true))}
+                  className="btn-primary py-2 px-4 text-sm"
+                >
+                  Approve All ({identityClaims.pending.length})
+                </button>
+              )}
+            </div>
+
+            {identityClaims.pending.length === 0 ? (
+              <p className="text-sm text-slate-400 font-medium">No one is waiting for approval.</p>
+            ) : (
+              <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-3">
+                {identityClaims.pending.map((claim) => (
+                  <div key={claim.participantId} className="flex items-center justify-between bg-white rounded-2xl border border-slate-100 px-4 py-3">
+                    <div>
+                      <p className="font-bold text-slate-700">{claim.name}</p>
+                      <p className="text-xs text-slate-400 font-mono">{claim.participantId}</p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <button
+                        onClick={() => resolveIdentityClaim(claim.participantId, true)}
+                        className="p-2 rounded-xl bg-gritfeat-green/10 text-gritfeat-green hover:bg-gritfeat-green hover:text-white transition-colors"
+                        title={`Confirm ${claim.name}`}
+                      >
+                        <Check className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => resolveIdentityClaim(claim.participantId, false)}
+                        className="p-2 rounded-xl bg-red-50 text-red-500 hover:bg-red-500 hover:text-white transition-colors"
+                        title={`Reject claim to be ${claim.name}`}
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </section>
+        )}
+
+        {/* Voter Invites */}
+        {identityClaims.rosterSize > 0 && (
+          <InviteManager
+            invites={invites}
+            participantUrl={participantUrl}
+            onGenerate={generateInvites}
+            onRevoke={revokeInvite}
+            onToggleMode={setInviteMode}
+          />
+        )}
+
         {/* Active Stage */}
         <div className="mb-12 animate-slide-up" style={{ animationDelay: '0.2s' }}>
           {currentSession && currentSession.active ? (
@@ -639,19 +1266,31 @@ export default function AdminPage() {
                 <div className="flex flex-col md:flex-row items-center justify-between gap-6 mb-8">
                   <div className="text-center md:text-left">
                     <div className="inline-block px-4 py-1.5 rounded-full bg-gritfeat-green text-white text-xs font-black uppercase tracking-widest mb-4 shadow-lg shadow-gritfeat-green/30">
-                      Now Live & Accepting Votes
+                      {isPaused ? "Paused - Votes On Hold" : currentSession.parentCategoryId ? `Tie-Break Runoff ${currentSession.runoffRound || 1}` : "Now Live & Accepting Votes"}
                     </div>
                     <h2 className="text-4xl font-black text-slate-800 mb-2">{currentSession.title}</h2>
                     <p className="text-slate-500 text-lg max-w-xl font-medium">{currentSession.description}</p>
                   </div>
 
-                  <div className="flex flex-col items-center justify-center gap-1 bg-white shadow-xl rounded-3xl p-6 min-w-[180px] border border-slate-100">
-                    <span className="text-xs font-black text-slate-400 uppercase tracking-widest">Active Voters</span>
-                    <span className="text-5xl font-black text-gritfeat-green font-mono tracking-tighter">
-                      {participantCount}
-                    </span>
-                    <div className="flex items-center gap-2 mt-2 text-slate-400 font-bold text-sm">
-                      <Users className="w-4 h-4" /> Participants
+                  <div className="flex flex-col sm:flex-row gap-4">
+                    <div className={`flex flex-col items-center justify-center gap-1 bg-white shadow-xl rounded-3xl p-6 min-w-[180px] border ${isFinalCountdown ? 'border-red-300 animate-pulse' : 'border-slate-100'}`}>
+                      <span className="text-xs font-black text-slate-400 uppercase tracking-widest">Time Left</span>
+                      <span className={`text-5xl font-black font-mono tracking-tighter ${isFinalCountdown ? 'text-red-500' : 'text-slate-800'}`}>
+                        {formatTime(timeLeft)}
+                      </span>
+                      <div className={`flex items-center gap-2 mt-2 font-bold text-sm ${isFinalCountdown ? 'text-red-500' : 'text-slate-400'}`}>
+                        <Clock className="w-4 h-4" /> {isPaused ? 'Timer frozen' : isFinalCountdown ? `Last ${COUNTDOWN_WARNING_SECONDS} seconds` : 'Auto-stops at zero'}
+                      </div>
+                    </div>
+
+                    <div className="flex flex-col items-center justify-center gap-1 bg-white shadow-xl rounded-3xl p-6 min-w-[180px] border border-slate-100">
+                      <span className="text-xs font-black text-slate-400 uppercase tracking-widest">Active Voters</span>
+                      <span className="text-5xl font-black text-gritfeat-green font-mono tracking-tighter">
+                        {participantCount}
+                      </span>
+                      <div className="flex items-center gap-2 mt-2 text-slate-400 font-bold text-sm">
+                        <Users className="w-4 h-4" /> Participants
+                      </div>
                     </div>
                   </div>
                 </div>
@@ -659,6 +1298,12 @@ export default function AdminPage() {
                 <div className="space-y-6 mb-10">
                   <h3 className="text-lg font-black text-slate-700 flex items-center gap-2">
                     <BarChart3 className="w-5 h-5 text-gritfeat-green" /> Live Response Feed
+                    {currentSession.votingMode === "ranked" && (
+                      <span className="text-xs font-bold text-slate-400 uppercase tracking-widest">(First Choices)</span>
+                    )}
+                    {currentSession.votingMode === "approval" && (
+                      <span className="text-xs font-bold text-slate-400 uppercase tracking-widest">(Approvals, up to {currentSession.maxSelections || DEFAULT_MAX_SELECTIONS} each)</span>
+                    )}
                   </h3>
                   <div className="grid md:grid-cols-2 gap-4">
                     {currentSession.options.map((option, idx) => {
@@ -684,7 +1329,13 @@ export default function AdminPage() {
                   </div>
                 </div>
 
-                <div className="flex justify-center">
+                <div className="flex flex-col sm:flex-row justify-center gap-4">
+                  <button
+                    onClick={() => isPaused ? resumeVoting(currentSession.categoryId) : pauseVoting(currentSession.categoryId)}
+                    className="px-12 py-5 rounded-2xl bg-white border-2 border-slate-200 text-slate-700 font-black hover:border-slate-800 transition-all flex items-center justify-center gap-3 active:scale-95"
+                  >
+                    {isPaused ? <><Play className="w-5 h-5 fill-current" /> Resume Voting</> : <><Pause className="w-5 h-5 fill-current" /> Pause Voting</>}
+                  </button>
                   <button
                     onClick={endVoting}
                     className="px-12 py-5 rounded-2xl bg-slate-800 text-white font-black hover:bg-slate-900 transition-all flex items-center gap-3 shadow-2xl shadow-slate-900/20 active:scale-95"
@@ -705,11 +1356,49 @@ export default function AdminPage() {
           )}
         </div>
 
+        {/* Live Turnout */}
+        {currentSession && currentSession.active && turnout.categoryId && (
+          <TurnoutTracker turnout={turnout} onToggleAutoClose={setAutoClose} />
+        )}
+
         {/* Results Reveal Section */}
         <section className="mb-12 animate-slide-up" style={{ animationDelay: '0.3s' }}>
+          <div className="flex flex-wrap items-center justify-end gap-2 mb-4">
+            <label className="flex items-center gap-2 px-4 py-1.5 bg-slate-100 rounded-full text-xs font-bold text-slate-500 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={includeUnrevealed}
+                onChange={(e) => setIncludeUnrevealed(e.target.checked)}
+                className="accent-gritfeat-green"
+              />
+              Include unrevealed
+            </label>
+            <button
+              onClick={() => exportResults("csv")}
+              className="flex items-center gap-1.5 px-4 py-1.5 bg-slate-100 rounded-full text-xs font-bold text-slate-500 hover:bg-slate-200 transition-colors"
+            >
+              <Download className="w-3 h-3" /> CSV
+            </button>
+            <button
+              onClick={() => exportResults("json")}
+              className="flex items-center gap-1.5 px-4 py-1.5 bg-slate-100 rounded-full text-xs font-bold text-slate-500 hover:bg-slate-200 transition-colors"
+            >
+              <Download className="w-3 h-3" /> JSON
+            </button>
+            <button
+              onClick={() => exportResults("html")}
+              className="flex items-center gap-1.5 px-4 py-1.5 bg-slate-100 rounded-full text-xs font-bold text-slate-500 hover:bg-slate-200 transition-colors"
+            >
+              <Printer className="w-3 h-3" /> Print Report
+            </button>
+          </div>
           <ResultsReveal
             categories={categories}
             onRevealWinner={revealWinner}
+            onRevealRunnerUp={revealRunnerUp}
+            onLaunchRunoff={launchRunoff}
+            onUnrevealWinner={unrevealWinner}
+            canLaunchRunoff={!currentSession?.active}
           />
         </section>
 
@@ -717,16 +1406,50 @@ export default function AdminPage() {
         <section className="animate-slide-up" style={{ animationDelay: '0.4s' }}>
           <div className="flex items-center justify-between mb-8">
             <h2 className="text-3xl font-black text-slate-800">All Categories</h2>
-            <div className="flex gap-2">
+            <div className="flex items-center gap-2">
+              <label className="flex items-center gap-2 px-4 py-1.5 bg-slate-100 rounded-full text-xs font-bold text-slate-500">
+                Default timer
+                <input
+                  type="number"
+                  min={5}
+                  value={defaultDuration}
+                  onChange={(e) => {
+                    const value = parseInt(e.target.value, 10);
+                    if (value > 0) {
+                      setDefaultDuration(value);
+                    }
+                  }}
+                  className="w-14 bg-transparent text-slate-700 text-center focus:outline-none"
+                />
+                s
+              </label>
+              <button
+                onClick={() => setIsImportOpen(true)}
+                className="flex items-center gap-1.5 px-4 py-1.5 bg-slate-100 rounded-full text-xs font-bold text-slate-500 hover:bg-slate-200 transition-colors"
+              >
+                <Upload className="w-3 h-3" /> Import
+              </button>
+              <button
+                onClick={() => setEditorState({ category: null })}
+                className="flex items-center gap-1.5 px-4 py-1.5 bg-gritfeat-green text-white rounded-full text-xs font-bold hover:opacity-90 transition-opacity"
+              >
+                <Plus className="w-3 h-3" /> New Category
+              </button>
               <span className="px-4 py-1.5 bg-slate-100 rounded-full text-xs font-bold text-slate-500">{categories.length} Total</span>
               <span className="px-4 py-1.5 bg-gritfeat-green/10 rounded-full text-xs font-bold text-gritfeat-green">{categories.filter(c => c.completed).length} Done</span>
             </div>
           </div>
 
           <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {categories.map((category) => {
-              const isActive = currentSession?.active && currentSession.categoryId === category.id;
+            {categories.map((category, index) => {
+              const isActive = currentSession?.active && (currentSession.parentCategoryId || currentSession.categoryId) === category.id;
               const canStart = !category.completed && !isActive && (!currentSession || !currentSession.active);
+              const canReopen = category.completed && !category.revealed && (!currentSession || !currentSession.active);
+              // Voted-on categories keep their ballot; only untouched ones can be edited
+              const isLocked = category.completed || isActive || (!!category.status && category.status !== "not-started");
+              const votingMode = votingModeOverrides[category.id] || category.votingMode || "plurality";
+              const maxSelections = maxSelectionOverrides[category.id] || category.maxSelections || DEFAULT_MAX_SELECTIONS;
+              const duration = durationOverrides[category.id] || defaultDuration;
 
               return (
                 <div key={category.id} className={`glass-card p-6 flex flex-col relative overflow-hidden group hover:border-gritfeat-green/30 ${category.completed ? 'opacity-80 grayscale-[0.05]' : ''}`}>
@@ -740,12 +1463,123 @@ export default function AdminPage() {
                   </div>
 
                   <h3 className="text-xl font-bold text-slate-800 mb-2">{category.title}</h3>
-                  <p className="text-sm text-slate-500 mb-6 flex-1 line-clamp-2 font-medium">{category.description}</p>
+                  <p className="text-sm text-slate-500 mb-4 flex-1 line-clamp-2 font-medium">{category.description}</p>
+                  <div className="inline-flex items-center gap-1.5 self-start px-3 py-1 mb-4 rounded-full bg-slate-100 text-xs font-bold text-slate-500">
+                    <Users className="w-3 h-3" /> {category.options.length} {category.options.length === 1 ? 'Nominee' : 'Nominees'}
+                  </div>
+
+                  <div className="flex items-center gap-1 mb-4" role="group" aria-label="Edit category">
+                    <button
+                      onClick={() => moveCategory(category.id, -1)}
+                      disabled={index === 0}
+                      className="p-2 rounded-lg text-slate-400 hover:text-slate-700 hover:bg-slate-100 transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+                      aria-label="Move up"
+                    >
+                      <ArrowUp className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => moveCategory(category.id, 1)}
+                      disabled={index === categories.length - 1}
+                      className="p-2 rounded-lg text-slate-400 hover:text-slate-700 hover:bg-slate-100 transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+                      aria-label="Move down"
+                    >
+                      <ArrowDown className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => duplicateCategory(category.id)}
+                      className="p-2 rounded-lg text-slate-400 hover:text-slate-700 hover:bg-slate-100 transition-colors"
+                      aria-label="Duplicate"
+                    >
+                      <Copy className="w-4 h-4" />
+                    </button>
+                    {!isLocked && (
+                      <>
+                        <button
+                          onClick={() => setEditorState({ category })}
+                          className="p-2 rounded-lg text-slate-400 hover:text-slate-700 hover:bg-slate-100 transition-colors"
+                          aria-label="Edit"
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => setPendingDelete(category)}
+                          className="p-2 rounded-lg text-slate-400 hover:text-red-500 hover:bg-red-50 transition-colors"
+                          aria-label="Delete"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </>
+                    )}
+                  </div>
+
+                  {votingMode === "ranked" && !canStart && (
+                    <div className="inline-flex items-center gap-1.5 self-start px-3 py-1 mb-4 rounded-full bg-slate-100 text-xs font-bold text-slate-500">
+                      <ListOrdered className="w-3 h-3" /> Ranked Choice
+                    </div>
+                  )}
+                  {votingMode === "approval" && !canStart && (
+                    <div className="inline-flex items-center gap-1.5 self-start px-3 py-1 mb-4 rounded-full bg-slate-100 text-xs font-bold text-slate-500">
+                      <Check className="w-3 h-3" /> Approval · Up to {maxSelections}
+                    </div>
+                  )}
 
                   <div className="pt-6 border-t border-slate-100">
+                    {canStart && (
+                      <div className="flex gap-2 mb-3" role="group" aria-label="Voting mode">
+                        {(["plurality", "ranked", "approval"] as VotingMode[]).map((mode) => (
+                          <button
+                            key={mode}
+                            onClick={() =>
+                              setVotingModeOverrides((prev) => ({ ...prev, [category.id]: mode }))
+                            }
+                            className={`flex-1 py-2 rounded-xl text-xs font-bold uppercase tracking-wider transition-colors ${votingMode === mode
+                              ? 'bg-gritfeat-green/10 text-gritfeat-green border border-gritfeat-green/30'
+                              : 'bg-slate-50 text-slate-400 border border-slate-100 hover:text-slate-600'
+                              }`}
+                          >
+                            {mode === "ranked" ? "Ranked" : mode === "approval" ? "Approval" : "Single Pick"}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                    {canStart && votingMode === "approval" && (
+                      <label className="flex items-center justify-between gap-3 mb-3 text-xs font-bold text-slate-500 uppercase tracking-wider">
+                        Max picks per voter
+                        <input
+                          type="number"
+                          min={1}
+                          max={category.options.length || undefined}
+                          value={maxSelections}
+                          onChange={(e) => {
+                            const value = parseInt(e.target.value, 10);
+                            if (value > 0) {
+                              setMaxSelectionOverrides((prev) => ({ ...prev, [category.id]: value }));
+                            }
+                          }}
+                          className="w-20 px-3 py-2 rounded-xl border border-slate-200 text-slate-700 text-sm font-bold text-center focus:outline-none focus:ring-2 focus:ring-gritfeat-green"
+                        />
+                      </label>
+                    )}
+                    {canStart && (
+                      <label className="flex items-center justify-between gap-3 mb-3 text-xs font-bold text-slate-500 uppercase tracking-wider">
+                        Timer (seconds)
+                        <input
+                          type="number"
+                          min={5}
+                          value={duration}
+                          onChange={(e) => {
+                            const value = parseInt(e.target.value, 10);
+                            if (value > 0) {
+                              setDurationOverrides((prev) => ({ ...prev, [category.id]: value }));
+                            }
+                          }}
+                          className="w-20 px-3 py-2 rounded-xl border border-slate-200 text-slate-700 text-sm font-bold text-center focus:outline-none focus:ring-2 focus:ring-gritfeat-green"
+                        />
+                      </label>
+                    )}
                     {canStart ? (
                       <button
-                        onClick={() => startVoting(category.id)}
+                        onClick={() => startVoting(category.id, votingMode, votingMode === "approval" ? maxSelections : undefined, duration)}
                         className="w-full btn-primary py-3 active:scale-95"
                       >
                         Launch Now
@@ -754,6 +1588,13 @@ export default function AdminPage() {
                       <div className="w-full py-3 bg-gritfeat-green/10 text-gritfeat-green font-black rounded-2xl flex items-center justify-center gap-2 animate-pulse">
                         Live Stream Active
                       </div>
+                    ) : canReopen ? (
+                      <button
+                        onClick={() => setPendingReopen(category)}
+                        className="w-full py-3 bg-slate-50 text-slate-500 font-bold rounded-2xl flex items-center justify-center gap-2 border border-slate-200 hover:bg-slate-100 hover:text-slate-700 transition-colors active:scale-95"
+                      >
+                        <RotateCcw className="w-4 h-4" /> Reopen Voting
+                      </button>
                     ) : (
                       <div className="w-full py-3 bg-slate-50 text-slate-400 font-bold rounded-2xl flex items-center justify-center border border-slate-100">
                         Category Completed
@@ -766,11 +1607,51 @@ export default function AdminPage() {
           </div>
         </section>
 
+        <ConfirmationModal
+          isOpen={!!pendingReopen}
+          title="Reopen This Category?"
+          description="Voting opens again with every vote collected so far kept:"
+          subjectLabel="Reopening"
+          categoryTitle={pendingReopen?.title || ""}
+          nominee=""
+          confirmLabel="Reopen Voting"
+          footnote={`The timer restarts at ${pendingReopen ? durationOverrides[pendingReopen.id] || defaultDuration : defaultDuration} seconds. Votes already cast still count.`}
+          onConfirm={confirmReopen}
+          onCancel={() => setPendingReopen(null)}
+        />
+
+        <ConfirmationModal
+          isOpen={!!pendingDelete}
+          title="Delete This Category?"
+          description="It will disappear from the dashboard and can't be launched:"
+          subjectLabel="Deleting"
+          categoryTitle={pendingDelete?.title || ""}
+          nominee=""
+          confirmLabel="Delete Category"
+          footnote="This can't be undone. Duplicate it first if you might want it back."
+          onConfirm={confirmDelete}
+          onCancel={() => setPendingDelete(null)}
+        />
+
+        <CategoryEditor
+          isOpen={!!editorState}
+          initialValues={editorState?.category}
+          onSave={saveCategory}
+          onCancel={() => setEditorState(null)}
+        />
+
+        <EventImport
+          isOpen={isImportOpen}
+          onPreview={previewImport}
+          onImport={applyImport}
+          onClose={() => setIsImportOpen(false)}
+        />
+
         {/* Instructions */}
         <div className="mt-12 text-center text-slate-400 font-medium">
           <p className="text-sm flex items-center justify-center gap-2">
             <span className="w-2 h-2 bg-gritfeat-green rounded-full"></span>
-            Pro Tip: Share this admin screen on your projector to show live results to everyone!
+            Pro Tip: Put the Stage View on your projector and keep this dashboard on your own screen!
           </p>
         </div>
       </div>
@@ -1,23 +1,23 @@
 "use client";
 
 import { useState, FormEvent } from "react";
-import { Lock, User, AlertCircle } from "lucide-react";
+import { Lock, User, AlertCircle, Clock } from "lucide-react";
 import Image from "next/image";
+import { AdminSession, loginAdmin } from "../utils/adminAuth";
+import { initializeServerUrl } from "../utils/getServerUrl";
 
 interface AdminLoginProps {
-  onLogin: () => void;
+  onLogin: (session: AdminSession) => void;
+  message?: string; // Why the previous session ended, if it was ended for us
 }
 
-const ADMIN_USERNAME = "admin";
-const ADMIN_PASSWORD = "Abcd!234x";
-
-export default function AdminLogin({ onLogin }: AdminLoginProps) {
+export default function AdminLogin({ onLogin, message }: AdminLoginProps) {
   const [username, setUsername] = useState("");
   const [password, setPassword] = useState("");
   const [error, setError] = useState("");
   const [isLoading, setIsLoading] = useState(false);
 
-  const handleSubmit = (e: FormEvent) => {
+  const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
     setError("");
 
@@ -28,18 +28,14 @@ export default function AdminLogin({ onLogin }: AdminLoginProps) {
 
     setIsLoading(true);
 
-    // Simulate a small delay for better UX
-    setTimeout(() => {
-      if (username === ADMIN_USERNAME && password === ADMIN_PASSWORD) {
-        // Store auth in localStorage
-        localStorage.setItem("admin_authenticated", "true");
-        localStorage.setItem("admin_auth_time", Date.now().toString());
-        onLogin();
-      } else {
-        setError("Invalid username or password");
-        setIsLoading(false);
-      }
-    }, 300);
+    // The backend checks the credentials and signs the session
+    try {
+      await initializeServerUrl();
+      onLogin(await loginAdmin(username, password));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Login failed");
+      setIsLoading(false);
+    }
   };
 
   return (
@@ -64,6 +60,13 @@ export default function AdminLogin({ onLogin }: AdminLoginProps) {
         </div>
 
         <form onSubmit={handleSubmit} className="space-y-6">
+          {message && !error && (
+            <div className="bg-orange-50 border-2 border-orange-200 rounded-xl p-4 flex items-center gap-3 animate-scale-in">
+              <Clock className="w-5 h-5 text-orange-500 flex-shrink-0" />
+              <p className="text-sm font-semibold text-orange-700">{message}</p>
+            </div>
+          )}
+
           {error && (
             <div className="bg-red-50 border-2 border-red-200 rounded-xl p-4 flex items-center gap-3 animate-scale-in">
               <AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0" />
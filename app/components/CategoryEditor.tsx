@@ -0,0 +1,154 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { X, Save, AlertCircle } from "lucide-react";
+import { CategoryEditorProps } from "../../types/components";
+
+// Nominees are edited one per line; blank lines are ignored
+const parseNominees = (text: string) =>
+  text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line !== "");
+
+export default function CategoryEditor({
+  isOpen,
+  initialValues,
+  onSave,
+  onCancel,
+}: CategoryEditorProps) {
+  const [title, setTitle] = useState<string>("");
+  const [description, setDescription] = useState<string>("");
+  const [nomineesText, setNomineesText] = useState<string>("");
+  const [error, setError] = useState<string>("");
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+
+  // Start from the category being edited, or a blank form
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setTitle(initialValues?.title || "");
+    setDescription(initialValues?.description || "");
+    setNomineesText((initialValues?.options || []).join("\n"));
+    setError("");
+    setIsSaving(false);
+  }, [isOpen, initialValues]);
+
+  if (!isOpen) return null;
+
+  const nominees = parseNominees(nomineesText);
+  const isEditing = !!initialValues;
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError("");
+    try {
+      await onSave({ title, description, options: nominees });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save category");
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4"
+      onClick={(e) => e.target === e.currentTarget && onCancel()}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="category-editor-title"
+    >
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black bg-opacity-50 backdrop-blur-sm pointer-events-none" />
+
+      <div className="relative bg-white rounded-3xl shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-slate-100">
+          <h2
+            id="category-editor-title"
+            className="text-2xl font-black text-slate-800"
+          >
+            {isEditing ? "Edit Category" : "New Category"}
+          </h2>
+          <button
+            onClick={onCancel}
+            className="p-2 hover:bg-slate-100 rounded-full transition-colors"
+            aria-label="Close editor"
+          >
+            <X className="w-5 h-5 text-slate-400" />
+          </button>
+        </div>
+
+        {/* Form */}
+        <div className="p-6 space-y-5">
+          <label className="block">
+            <span className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">
+              Title
+            </span>
+            <input
+              type="text"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="e.g. Coffee Addict"
+              className="w-full px-4 py-3 rounded-xl border border-slate-200 text-slate-700 font-semibold focus:outline-none focus:ring-2 focus:ring-gritfeat-green"
+            />
+          </label>
+
+          <label className="block">
+            <span className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">
+              Description
+            </span>
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={2}
+              placeholder="Who can't function without caffeine?"
+              className="w-full px-4 py-3 rounded-xl border border-slate-200 text-slate-700 font-medium focus:outline-none focus:ring-2 focus:ring-gritfeat-green resize-none"
+            />
+          </label>
+
+          <label className="block">
+            <span className="flex items-center justify-between text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">
+              Nominees (one per line)
+              <span className="normal-case tracking-normal text-slate-400">
+                {nominees.length} {nominees.length === 1 ? "nominee" : "nominees"}
+              </span>
+            </span>
+            <textarea
+              value={nomineesText}
+              onChange={(e) => setNomineesText(e.target.value)}
+              rows={8}
+              placeholder={"Alex\nSam\nJordan"}
+              className="w-full px-4 py-3 rounded-xl border border-slate-200 text-slate-700 font-medium focus:outline-none focus:ring-2 focus:ring-gritfeat-green"
+            />
+          </label>
+
+          {error && (
+            <div className="flex items-center gap-2 p-3 bg-red-50 border border-red-200 rounded-xl">
+              <AlertCircle className="w-4 h-4 text-red-500 flex-shrink-0" />
+              <p className="text-sm font-medium text-red-600">{error}</p>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex gap-3 p-6 border-t border-slate-100">
+          <button
+            onClick={onCancel}
+            className="flex-1 py-3 bg-slate-100 hover:bg-slate-200 text-slate-600 font-bold rounded-2xl transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving || title.trim() === ""}
+            className="flex-1 btn-primary py-3 flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Save className="w-4 h-4" />
+            {isSaving ? "Saving..." : isEditing ? "Save Changes" : "Create Category"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -8,6 +8,13 @@ export default function ConfirmationModal({
   isOpen,
   nominee,
   categoryTitle,
+  ranking,
+  selections,
+  title = "Confirm Your Vote",
+  description,
+  subjectLabel = "Your vote for",
+  confirmLabel = "Confirm Vote",
+  footnote = "This action cannot be undone. You can only vote once per category.",
   onConfirm,
   onCancel,
 }: ConfirmationModalProps) {
@@ -79,6 +86,9 @@ export default function ConfirmationModal({
 
   if (!isOpen) return null;
 
+  const isRanked = Array.isArray(ranking) && ranking.length > 0;
+  const isMultiSelect = Array.isArray(selections) && selections.length > 0;
+
   return (
     <div
       className="fixed inset-0 z-50 flex items-center justify-center p-4"
@@ -107,7 +117,7 @@ export default function ConfirmationModal({
               id="modal-title"
               className="text-xl font-semibold text-[#4c4c4c]"
             >
-              Confirm Your Vote
+              {title}
             </h2>
           </div>
           <button
@@ -122,23 +132,56 @@ export default function ConfirmationModal({
         {/* Body */}
         <div className="p-6">
           <p id="modal-description" className="text-gray-600 mb-4">
-            Are you sure you want to vote for:
+            {description ||
+              (isRanked
+                ? "Are you sure you want to submit this ranking:"
+                : isMultiSelect && selections.length > 1
+                  ? `Are you sure you want to vote for these ${selections.length} nominees:`
+                  : "Are you sure you want to vote for:")}
           </p>
 
           {/* Nominee Display */}
           <div className="bg-gradient-to-r from-[#7ebd41]/5 to-[#7ebd41]/10 rounded-lg p-4 mb-4 border border-[#7ebd41]/20">
             <div className="text-center">
-              <p className="text-sm text-gray-600 mb-1">Your vote for</p>
+              <p className="text-sm text-gray-600 mb-1">{subjectLabel}</p>
               <p className="text-lg font-medium text-[#4c4c4c] mb-1">
                 {categoryTitle}
               </p>
-              <p className="text-xl font-bold text-[#7ebd41]">{nominee}</p>
+              {isRanked ? (
+                <ol className="mt-2 space-y-1 text-left inline-block">
+                  {ranking.map((name, index) => (
+                    <li
+                      key={name}
+                      className={`flex items-center ${index === 0
+                        ? "text-xl font-bold text-[#7ebd41]"
+                        : "text-base font-medium text-[#4c4c4c]"
+                        }`}
+                    >
+                      <span className="w-8 text-gray-400 text-sm font-semibold">
+                        #{index + 1}
+                      </span>
+                      {name}
+                    </li>
+                  ))}
+                </ol>
+              ) : isMultiSelect ? (
+                <ul className="mt-2 space-y-1">
+                  {selections.map((name) => (
+                    <li
+                      key={name}
+                      className="text-lg font-bold text-[#7ebd41]"
+                    >
+                      {name}
+                    </li>
+                  ))}
+                </ul>
+              ) : nominee ? (
+                <p className="text-xl font-bold text-[#7ebd41]">{nominee}</p>
+              ) : null}
             </div>
           </div>
 
-          <p className="text-sm text-gray-500 text-center">
-            This action cannot be undone. You can only vote once per category.
-          </p>
+          <p className="text-sm text-gray-500 text-center">{footnote}</p>
         </div>
 
         {/* Footer */}
@@ -156,7 +199,7 @@ export default function ConfirmationModal({
             className="flex-1 px-4 py-3 bg-[#7ebd41] hover:bg-[#6ba837] text-white rounded-lg font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-[#7ebd41] focus:ring-offset-2 flex items-center justify-center space-x-2"
           >
             <Check className="w-4 h-4" />
-            <span>Confirm Vote</span>
+            <span>{confirmLabel}</span>
           </button>
         </div>
       </div>
@@ -0,0 +1,90 @@
+"use client";
+
+import { Wifi, WifiOff, Clock, CheckCircle } from "lucide-react";
+import { ConnectionBannerProps } from "../../types/components";
+
+export default function ConnectionBanner({
+  status,
+  latency,
+  queuedVotes,
+  reconnectAttempts = 0,
+  isOnline = true,
+  voteStatus,
+  recordedAt,
+  floating = false,
+  onReconnect,
+}: ConnectionBannerProps) {
+  const isConnected = status === "connected";
+  const isRecorded = queuedVotes === 0 && voteStatus === "recorded";
+
+  // Full-screen views only need the banner when something is wrong,
+  // or to show the receipt for the ballot just cast
+  if (floating && isConnected && queuedVotes === 0 && !isRecorded) return null;
+
+  const label = isConnected
+    ? "Connected"
+    : !isOnline
+      ? "Offline"
+      : status === "reconnecting"
+        ? "Reconnecting"
+        : "Disconnected";
+
+  return (
+    <div
+      className={`flex flex-col sm:flex-row items-center justify-center gap-2 ${floating ? "fixed top-3 inset-x-0 z-40 px-3" : "mt-2"}`}
+      role="status"
+    >
+      <div
+        className={`flex items-center text-xs px-3 py-1.5 rounded-full transition-colors shadow-sm ${isConnected
+          ? "bg-green-100 text-green-700"
+          : "bg-red-100 text-red-700"
+          }`}
+      >
+        {isConnected ? (
+          <Wifi className="w-3 h-3 mr-1.5" />
+        ) : (
+          <WifiOff className="w-3 h-3 mr-1.5" />
+        )}
+        {label}
+        {isConnected && latency !== null && (
+          <span className="ml-1 opacity-75">· {latency} ms</span>
+        )}
+        {!isConnected && reconnectAttempts > 0 && (
+          <span className="ml-1">({reconnectAttempts})</span>
+        )}
+      </div>
+
+      {queuedVotes > 0 && (
+        <div className="flex items-center text-xs px-3 py-1.5 rounded-full bg-orange-100 text-orange-700 shadow-sm">
+          <Clock className="w-3 h-3 mr-1.5" />
+          {!isConnected
+            ? `${queuedVotes === 1 ? "Vote" : `${queuedVotes} votes`} saved, will send when you reconnect`
+            : voteStatus === "retrying"
+              ? "Not confirmed yet, retrying…"
+              : `Sending ${queuedVotes === 1 ? "your vote" : `${queuedVotes} votes`}…`}
+        </div>
+      )}
+
+      {isRecorded && (
+        <div className="flex items-center text-xs px-3 py-1.5 rounded-full bg-green-100 text-green-700 shadow-sm">
+          <CheckCircle className="w-3 h-3 mr-1.5" />
+          Vote recorded
+          {recordedAt && (
+            <span className="ml-1 opacity-75">
+              · {new Date(recordedAt).toLocaleTimeString()}
+            </span>
+          )}
+        </div>
+      )}
+
+      {!isConnected && onReconnect && (
+        <button
+          onClick={onReconnect}
+          className="text-xs bg-blue-500 text-white px-3 py-1.5 rounded-full hover:bg-blue-600 transition-colors touch-manipulation active:scale-95"
+        >
+          Reconnect
+        </button>
+      )}
+    </div>
+  );
+}
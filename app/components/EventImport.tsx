@@ -0,0 +1,316 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  X,
+  Upload,
+  AlertCircle,
+  AlertTriangle,
+  CheckCircle,
+  FileText,
+} from "lucide-react";
+import { EventImportProps } from "../../types/components";
+import {
+  EventImportPreview,
+  EventImportMode,
+  EventImportResult,
+} from "../../types/voting";
+
+export default function EventImport({
+  isOpen,
+  onPreview,
+  onImport,
+  onClose,
+}: EventImportProps) {
+  const [fileName, setFileName] = useState<string>("");
+  const [content, setContent] = useState<string>("");
+  const [format, setFormat] = useState<EventImportPreview["format"]>("csv");
+  const [preview, setPreview] = useState<EventImportPreview | null>(null);
+  const [mode, setMode] = useState<EventImportMode>("merge");
+  const [result, setResult] = useState<EventImportResult | null>(null);
+  const [error, setError] = useState<string>("");
+  const [isBusy, setIsBusy] = useState<boolean>(false);
+
+  // Every upload starts from a clean slate
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setFileName("");
+    setContent("");
+    setPreview(null);
+    setMode("merge");
+    setResult(null);
+    setError("");
+    setIsBusy(false);
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const handleFileChange = async (file: File | undefined) => {
+    if (!file) return;
+
+    const fileFormat = file.name.toLowerCase().endsWith(".json")
+      ? "json"
+      : "csv";
+    setFileName(file.name);
+    setFormat(fileFormat);
+    setPreview(null);
+    setResult(null);
+    setError("");
+    setIsBusy(true);
+
+    try {
+      const text = await file.text();
+      setContent(text);
+      setPreview(await onPreview(text, fileFormat));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to read file");
+    }
+    setIsBusy(false);
+  };
+
+  const handleImport = async () => {
+    setIsBusy(true);
+    setError("");
+    try {
+      setResult(await onImport(content, format, mode));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to import event");
+    }
+    setIsBusy(false);
+  };
+
+  const errors = preview?.issues.filter((issue) => issue.severity === "error") || [];
+  const warnings =
+    preview?.issues.filter((issue) => issue.severity === "warning") || [];
+  const flaggedIds = new Set(
+    errors.map((issue) => issue.categoryId).filter(Boolean)
+  );
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4"
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="event-import-title"
+    >
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black bg-opacity-50 backdrop-blur-sm pointer-events-none" />
+
+      <div className="relative bg-white rounded-3xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-slate-100">
+          <h2
+            id="event-import-title"
+            className="text-2xl font-black text-slate-800"
+          >
+            Import Event
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-slate-100 rounded-full transition-colors"
+            aria-label="Close import"
+          >
+            <X className="w-5 h-5 text-slate-400" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5">
+          {result ? (
+            <div className="text-center py-6">
+              <div className="w-16 h-16 bg-gritfeat-green/10 rounded-full flex items-center justify-center mx-auto mb-4">
+                <CheckCircle className="w-8 h-8 text-gritfeat-green" />
+              </div>
+              <h3 className="text-xl font-bold text-slate-800 mb-2">
+                {result.mode === "replace" ? "Event Replaced" : "Event Merged"}
+              </h3>
+              <p className="text-slate-500 font-medium">
+                {result.added.length} added · {result.updated.length} updated ·{" "}
+                {result.skipped.length} skipped · {result.rosterSize} on the roster
+              </p>
+              {result.skipped.length > 0 && (
+                <p className="text-sm text-slate-400 mt-2">
+                  Already voted on, left as they were: {result.skipped.join(", ")}
+                </p>
+              )}
+            </div>
+          ) : (
+            <>
+              {/* File Picker */}
+              <label className="flex flex-col items-center justify-center gap-2 p-6 border-2 border-dashed border-slate-200 rounded-2xl cursor-pointer hover:border-gritfeat-green/50 transition-colors">
+                <Upload className="w-6 h-6 text-slate-400" />
+                <span className="text-sm font-bold text-slate-600">
+                  {fileName || "Choose a .csv or .json file"}
+                </span>
+                <span className="text-xs text-slate-400">
+                  CSV uses the awards.csv layout; JSON lists categories with
+                  their nominees
+                </span>
+                <input
+                  type="file"
+                  accept=".csv,.json,text/csv,application/json"
+                  onChange={(e) => handleFileChange(e.target.files?.[0])}
+                  className="hidden"
+                />
+              </label>
+
+              {isBusy && !preview && (
+                <p className="text-sm text-slate-400 text-center">
+                  Reading file...
+                </p>
+              )}
+
+              {preview && (
+                <>
+                  {/* Summary */}
+                  <div className="flex flex-wrap gap-2">
+                    <span className="px-3 py-1 bg-slate-100 rounded-full text-xs font-bold text-slate-500">
+                      {preview.categories.length} Categories
+                    </span>
+                    <span className="px-3 py-1 bg-slate-100 rounded-full text-xs font-bold text-slate-500">
+                      {preview.roster.length} Roster Names
+                    </span>
+                    {errors.length > 0 && (
+                      <span className="px-3 py-1 bg-red-50 rounded-full text-xs font-bold text-red-500">
+                        {errors.length} {errors.length === 1 ? "Error" : "Errors"}
+                      </span>
+                    )}
+                    {warnings.length > 0 && (
+                      <span className="px-3 py-1 bg-orange-50 rounded-full text-xs font-bold text-orange-500">
+                        {warnings.length} {warnings.length === 1 ? "Warning" : "Warnings"}
+                      </span>
+                    )}
+                  </div>
+
+                  {/* Issues */}
+                  {preview.issues.length > 0 && (
+                    <ul className="space-y-2">
+                      {preview.issues.map((issue, index) => (
+                        <li
+                          key={index}
+                          className={`flex items-start gap-2 p-3 rounded-xl text-sm font-medium ${issue.severity === "error"
+                            ? "bg-red-50 text-red-600"
+                            : "bg-orange-50 text-orange-600"
+                            }`}
+                        >
+                          {issue.severity === "error" ? (
+                            <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                          ) : (
+                            <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                          )}
+                          {issue.message}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+
+                  {/* Parsed Categories */}
+                  <div className="space-y-2 max-h-72 overflow-y-auto">
+                    {preview.categories.map((category, index) => (
+                      <div
+                        key={`${category.id}-${index}`}
+                        className={`p-4 rounded-2xl border ${flaggedIds.has(category.id)
+                          ? "border-red-200 bg-red-50/50"
+                          : "border-slate-100 bg-slate-50"
+                          }`}
+                      >
+                        <div className="flex items-start justify-between gap-3">
+                          <div className="min-w-0">
+                            <p className="font-bold text-slate-800">
+                              {category.title}
+                            </p>
+                            <p className="text-xs font-mono text-slate-400">
+                              {category.id}
+                            </p>
+                          </div>
+                          {category.locked ? (
+                            <span className="flex-shrink-0 px-2 py-0.5 bg-slate-200 rounded-full text-[10px] font-bold uppercase text-slate-500">
+                              Voted on
+                            </span>
+                          ) : category.exists ? (
+                            <span className="flex-shrink-0 px-2 py-0.5 bg-blue-50 rounded-full text-[10px] font-bold uppercase text-blue-500">
+                              Existing
+                            </span>
+                          ) : (
+                            <span className="flex-shrink-0 px-2 py-0.5 bg-gritfeat-green/10 rounded-full text-[10px] font-bold uppercase text-gritfeat-green">
+                              New
+                            </span>
+                          )}
+                        </div>
+                        <p className="text-sm text-slate-500 mt-1 line-clamp-2">
+                          {category.description}
+                        </p>
+                        <p className="text-xs text-slate-400 mt-2 line-clamp-2">
+                          <FileText className="inline w-3 h-3 mr-1" />
+                          {category.options.length} nominees:{" "}
+                          {category.options.join(", ")}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+
+                  {/* Import Mode */}
+                  <div className="grid grid-cols-2 gap-3" role="radiogroup" aria-label="Import mode">
+                    {(["merge", "replace"] as EventImportMode[]).map((option) => (
+                      <button
+                        key={option}
+                        onClick={() => setMode(option)}
+                        role="radio"
+                        aria-checked={mode === option}
+                        className={`p-4 rounded-2xl border text-left transition-colors ${mode === option
+                          ? "border-gritfeat-green/40 bg-gritfeat-green/10"
+                          : "border-slate-100 bg-slate-50 hover:border-slate-200"
+                          }`}
+                      >
+                        <p className="font-bold text-slate-800">
+                          {option === "merge" ? "Merge" : "Replace"}
+                        </p>
+                        <p className="text-xs text-slate-500 mt-1">
+                          {option === "merge"
+                            ? "Add new categories and update ones nobody has voted on yet."
+                            : "Swap out every category. All votes and results are cleared."}
+                        </p>
+                      </button>
+                    ))}
+                  </div>
+                </>
+              )}
+            </>
+          )}
+
+          {error && (
+            <div className="flex items-center gap-2 p-3 bg-red-50 border border-red-200 rounded-xl">
+              <AlertCircle className="w-4 h-4 text-red-500 flex-shrink-0" />
+              <p className="text-sm font-medium text-red-600">{error}</p>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex gap-3 p-6 border-t border-slate-100">
+          <button
+            onClick={onClose}
+            className="flex-1 py-3 bg-slate-100 hover:bg-slate-200 text-slate-600 font-bold rounded-2xl transition-colors"
+          >
+            {result ? "Done" : "Cancel"}
+          </button>
+          {!result && (
+            <button
+              onClick={handleImport}
+              disabled={isBusy || !preview || !preview.canImport}
+              className="flex-1 btn-primary py-3 flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Upload className="w-4 h-4" />
+              {isBusy && preview
+                ? "Importing..."
+                : mode === "replace"
+                  ? "Replace Event"
+                  : "Merge Into Event"}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
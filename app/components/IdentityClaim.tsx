@@ -0,0 +1,122 @@
+"use client";
+
+import { useState } from "react";
+import { UserCheck, Clock, AlertCircle } from "lucide-react";
+import Image from "next/image";
+import { IdentityClaimProps } from "../../types/components";
+
+export default function IdentityClaim({
+  roster,
+  takenNames,
+  status,
+  claimedName,
+  error,
+  onClaim,
+}: IdentityClaimProps) {
+  const [searchQuery, setSearchQuery] = useState<string>("");
+
+  const filteredNames = roster
+    .filter((name) => name.toLowerCase().includes(searchQuery.toLowerCase()))
+    .sort((a, b) => a.localeCompare(b));
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 flex items-center justify-center p-3 sm:p-4">
+      <div className="text-center max-w-sm sm:max-w-md mx-auto w-full">
+        {/* Logo */}
+        <div className="flex justify-center mb-4 sm:mb-6">
+          <Image
+            src="/assets/gf-logo.svg"
+            alt="GritFeat Logo"
+            width={100}
+            height={40}
+            className="h-8 sm:h-10 w-auto"
+          />
+        </div>
+
+        {status === "pending" ? (
+          <>
+            <div className="w-16 h-16 sm:w-20 sm:h-20 bg-blue-500/10 rounded-full flex items-center justify-center mx-auto mb-4 sm:mb-6">
+              <Clock className="w-8 h-8 sm:w-12 sm:h-12 text-blue-500" />
+            </div>
+            <h1 className="text-xl sm:text-2xl md:text-3xl font-bold text-[#4c4c4c] mb-2 sm:mb-4 px-2">
+              Waiting for Approval
+            </h1>
+            <p className="text-base sm:text-lg text-gray-600 mb-4 px-2 font-medium">
+              The admin will confirm that you're {claimedName} shortly.
+            </p>
+            <p className="text-sm text-gray-500 px-2">
+              Keep this page open. Voting unlocks as soon as you're
+              confirmed.
+            </p>
+          </>
+        ) : (
+          <>
+            <div className="w-16 h-16 sm:w-20 sm:h-20 bg-[#7ebd41]/10 rounded-full flex items-center justify-center mx-auto mb-4 sm:mb-6">
+              <UserCheck className="w-8 h-8 sm:w-12 sm:h-12 text-[#7ebd41]" />
+            </div>
+            <h1 className="text-xl sm:text-2xl md:text-3xl font-bold text-[#4c4c4c] mb-2 sm:mb-4 px-2">
+              Who are you?
+            </h1>
+            <p className="text-sm sm:text-base text-gray-500 mb-4 px-2">
+              Pick your name so the admin can confirm it. You won't see
+              yourself on the ballot.
+            </p>
+
+            {status === "rejected" && (
+              <div className="flex items-center gap-2 mb-4 p-3 bg-red-100 border border-red-300 rounded-lg text-left">
+                <AlertCircle className="w-4 h-4 text-red-600 flex-shrink-0" />
+                <p className="text-red-700 text-sm font-medium">
+                  The admin didn't confirm you as {claimedName}. Please
+                  pick your own name.
+                </p>
+              </div>
+            )}
+
+            {error && (
+              <div className="mb-4 p-3 bg-red-100 border border-red-300 rounded-lg">
+                <p className="text-red-700 text-sm font-medium">{error}</p>
+              </div>
+            )}
+
+            <input
+              type="text"
+              placeholder="Type to search for your name..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="block w-full px-3 sm:px-4 py-3 mb-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#7ebd41] focus:border-[#7ebd41] text-gray-900 placeholder-gray-500 bg-white shadow-sm text-base touch-manipulation"
+            />
+
+            <div className="space-y-2 max-h-[50vh] overflow-y-auto text-left">
+              {filteredNames.map((name) => {
+                const isTaken = takenNames.includes(name);
+
+                return (
+                  <button
+                    key={name}
+                    onClick={() => onClaim(name)}
+                    disabled={isTaken}
+                    className="w-full flex items-center justify-between bg-white rounded-xl px-4 py-3 border-2 border-gray-200 hover:border-[#7ebd41] transition-colors touch-manipulation active:scale-[0.98] disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:border-gray-200"
+                  >
+                    <span className="text-sm sm:text-base font-semibold text-[#4c4c4c] break-words">
+                      {name}
+                    </span>
+                    {isTaken && (
+                      <span className="text-xs text-gray-400 flex-shrink-0">
+                        Claimed
+                      </span>
+                    )}
+                  </button>
+                );
+              })}
+              {filteredNames.length === 0 && (
+                <p className="text-sm text-gray-500 text-center py-4">
+                  No names match "{searchQuery}"
+                </p>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+"use client";
+
+import { useState } from "react";
+import { Ticket, Printer, Ban, AlertCircle } from "lucide-react";
+import { InviteManagerProps } from "../../types/components";
+import { InviteStatus, VoterInvite } from "../../types/voting";
+import { openInviteCards } from "../utils/inviteCards";
+
+const STATUS_STYLES: Record<InviteStatus, string> = {
+  unused: "bg-slate-100 text-slate-500",
+  active: "bg-gritfeat-green/10 text-gritfeat-green",
+  revoked: "bg-red-50 text-red-500",
+};
+
+export default function InviteManager({
+  invites,
+  participantUrl,
+  onGenerate,
+  onRevoke,
+  onToggleMode,
+}: InviteManagerProps) {
+  const [error, setError] = useState<string>("");
+  const [isBusy, setIsBusy] = useState<boolean>(false);
+
+  const usable = invites.invites.filter((invite) => invite.status !== "revoked");
+  const counts = invites.invites.reduce(
+    (acc, invite) => ({ ...acc, [invite.status]: acc[invite.status] + 1 }),
+    { unused: 0, active: 0, revoked: 0 } as Record<InviteStatus, number>
+  );
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setError("");
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Invite update failed");
+    }
+    setIsBusy(false);
+  };
+
+  const printCards = (list: VoterInvite[]) =>
+    run(() => openInviteCards(list, participantUrl));
+
+  return (
+    <section className="glass-card p-6 sm:p-8 mb-12">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+        <div>
+          <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+            <Ticket className="w-5 h-5 text-gritfeat-green" /> Voter Invites
+          </h3>
+          <p className="text-sm text-slate-500 font-medium">
+            {counts.unused} unused · {counts.active} active · {counts.revoked} revoked
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="flex items-center gap-2 text-sm font-bold text-slate-600 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={invites.enabled}
+              disabled={isBusy}
+              onChange={(e) => run(() => onToggleMode(e.target.checked))}
+              className="w-4 h-4 accent-gritfeat-green"
+            />
+            Invite-only voting
+          </label>
+          <button
+            onClick={() => run(onGenerate)}
+            disabled={isBusy}
+            className="btn-secondary py-2 px-4 text-sm"
+          >
+            Generate Invites
+          </button>
+          <button
+            onClick={() => printCards(usable)}
+            disabled={isBusy || usable.length === 0}
+            className="btn-primary py-2 px-4 text-sm flex items-center gap-2"
+          >
+            <Printer className="w-4 h-4" /> Print QR Cards
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <p className="flex items-center gap-2 text-sm font-bold text-red-500 mb-4">
+          <AlertCircle className="w-4 h-4" /> {error}
+        </p>
+      )}
+
+      {invites.invites.length === 0 ? (
+        <p className="text-sm text-slate-400 font-medium">
+          No invites yet. Generate one per colleague on the roster.
+        </p>
+      ) : (
+        <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-3">
+          {invites.invites.map((invite) => (
+            <div key={invite.token} className="flex items-center justify-between bg-white rounded-2xl border border-slate-100 px-4 py-3">
+              <div>
+                <p className="font-bold text-slate-700">{invite.name}</p>
+                <span className={`inline-block mt-1 px-2 py-0.5 rounded-full text-[10px] font-black uppercase tracking-widest ${STATUS_STYLES[invite.status]}`}>
+                  {invite.status}
+                </span>
+              </div>
+              {invite.status !== "revoked" && (
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => printCards([invite])}
+                    disabled={isBusy}
+                    className="p-2 rounded-xl bg-slate-100 text-slate-500 hover:bg-slate-700 hover:text-white transition-colors"
+                    title={`Print invite for ${invite.name}`}
+                  >
+                    <Printer className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => run(() => onRevoke(invite.token))}
+                    disabled={isBusy}
+                    className="p-2 rounded-xl bg-red-50 text-red-500 hover:bg-red-500 hover:text-white transition-colors"
+                    title={`Revoke invite for ${invite.name}`}
+                  >
+                    <Ban className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -1,10 +1,25 @@
 "use client";
 
-import { useState, useCallback } from "react";
-import { Trophy, Eye, EyeOff, Sparkles } from "lucide-react";
-import { CategoryResult, ResultsRevealProps } from "../../types";
-import { SOUNDS } from "../../types/constants";
+import { useState, useCallback, useEffect, useRef } from "react";
+import { Trophy, Eye, EyeOff, Sparkles, ListOrdered, Repeat, Undo2, Award, Download, Medal, SkipForward } from "lucide-react";
+import {
+  CategoryResult,
+  ResultsRevealProps,
+  RevealPlacing,
+  formatPlace,
+  getTopResults as getTopPlacings,
+} from "../../types";
+import {
+  SOUNDS,
+  DEFAULT_RUNNER_UP_PLACES,
+  MAX_RUNNER_UP_PLACES,
+} from "../../types/constants";
 import WinnerRevealModal from "./WinnerRevealModal";
+import ConfirmationModal from "./ConfirmationModal";
+import {
+  downloadCertificate,
+  downloadCertificatesZip,
+} from "../utils/certificates";
 
 interface WinnerInfo {
   winner: string | string[];
@@ -16,6 +31,10 @@ interface WinnerInfo {
 export default function ResultsReveal({
   categories,
   onRevealWinner,
+  onRevealRunnerUp,
+  onLaunchRunoff,
+  onUnrevealWinner,
+  canLaunchRunoff = true,
 }: ResultsRevealProps) {
   const [revealedCategories, setRevealedCategories] = useState<Set<string>>(
     new Set()
@@ -24,11 +43,40 @@ export default function ResultsReveal({
     isOpen: boolean;
     categoryTitle: string;
     winnerName: string | string[];
+    placeLabel?: string;
   }>({
     isOpen: false,
     categoryTitle: "",
     winnerName: "",
   });
+  const [runnerUpPlaces, setRunnerUpPlaces] = useState<number>(
+    DEFAULT_RUNNER_UP_PLACES
+  );
+  const [pendingUnreveal, setPendingUnreveal] = useState<{
+    categoryId: string;
+    categoryTitle: string;
+    winnerName: string;
+  } | null>(null);
+
+  // A winner hidden from any admin screen must drop out of the local set too
+  const previouslyRevealed = useRef<Set<string>>(new Set());
+  useEffect(() => {
+    const hiddenIds = Array.from(previouslyRevealed.current).filter(
+      (id) => !categories.find((cat) => cat.id === id)?.revealed
+    );
+
+    if (hiddenIds.length > 0) {
+      setRevealedCategories((prev) => {
+        const next = new Set(prev);
+        hiddenIds.forEach((id) => next.delete(id));
+        return next;
+      });
+    }
+
+    previouslyRevealed.current = new Set(
+      categories.filter((cat) => cat.revealed).map((cat) => cat.id)
+    );
+  }, [categories]);
 
   // Calculate winner for a category
   const calculateWinner = useCallback(
@@ -58,13 +106,43 @@ export default function ResultsReveal({
     []
   );
 
-  // Get top 3 results for a category
-  const getTopResults = useCallback((results: Record<string, number>) => {
+  // Ranked categories are decided by the server's instant-runoff tally
+  const getRankedWinner = useCallback(
+    (category: ResultsRevealProps["categories"][number]): WinnerInfo | null => {
+      const rounds = category.rounds || [];
+      if (!category.winner || rounds.length === 0) {
+        return null;
+      }
+
+      const finalRound = rounds[rounds.length - 1];
+      const winners = Array.isArray(category.winner)
+        ? category.winner
+        : [category.winner];
+
+      return {
+        winner: category.winner,
+        votes: finalRound.tallies[winners[0]] || 0,
+        isTie: winners.length > 1,
+        totalVotes: Object.values(category.results || {}).reduce(
+          (sum, votes) => sum + votes,
+          0
+        ),
+      };
+    },
+    []
+  );
+
+  // Get top 3 results for a category; approval categories pass their voter
+  // count so percentages read as approval rates
+  const getTopResults = useCallback((results: Record<string, number>, ballotCount?: number) => {
     if (!results || Object.keys(results).length === 0) return [];
 
     const entries = Object.entries(results);
     const sortedEntries = entries.sort((a, b) => b[1] - a[1]);
-    const totalVotes = entries.reduce((sum, [, votes]) => sum + votes, 0);
+    const totalVotes =
+      ballotCount !== undefined
+        ? ballotCount
+        : entries.reduce((sum, [, votes]) => sum + votes, 0);
 
     return sortedEntries.slice(0, 3).map(([name, votes], index) => ({
       position: index + 1,
@@ -74,14 +152,68 @@ export default function ResultsReveal({
     }));
   }, []);
 
+  // Runner-up places a staged reveal shows before the winner, lowest first.
+  // The server fixes the list on the first step; until then it is previewed
+  // from the same tie-aware placings
+  const getRunnerUpSteps = (
+    category: ResultsRevealProps["categories"][number],
+    winnerInfo: WinnerInfo
+  ): RevealPlacing[] => {
+    if (category.revealSteps) return category.revealSteps;
+
+    const winners = ([] as string[]).concat(winnerInfo.winner);
+    const others = Object.fromEntries(
+      Object.entries(category.results || {}).filter(
+        ([name]) => !winners.includes(name)
+      )
+    );
+    const percentageBase =
+      category.votingMode === "approval"
+        ? category.ballotCount || 0
+        : winnerInfo.totalVotes;
+
+    return getTopPlacings(others, runnerUpPlaces, percentageBase)
+      .map((placing) => ({ ...placing, position: placing.position + 1 }))
+      .reverse();
+  };
+
+  const getPlaceLabel = (placing: RevealPlacing) =>
+    placing.isTie
+      ? `Tied for ${formatPlace(placing.position)}`
+      : formatPlace(placing.position);
+
+  // Show the next runner-up place on every screen
+  const handleRevealRunnerUp = useCallback(
+    (categoryId: string, categoryTitle: string, placing: RevealPlacing) => {
+      if (!onRevealRunnerUp) return;
+
+      setModalState({
+        isOpen: true,
+        categoryTitle,
+        winnerName: placing.name,
+        placeLabel: getPlaceLabel(placing),
+      });
+
+      try {
+        const audio = new Audio(SOUNDS.SUCCESS);
+        audio.volume = 0.6;
+        audio.play().catch(err => console.log("Audio play blocked:", err));
+      } catch (err) {
+        console.error("Audio error:", err);
+      }
+
+      onRevealRunnerUp(categoryId, runnerUpPlaces);
+    },
+    [onRevealRunnerUp, runnerUpPlaces]
+  );
+
   // Handle reveal winner
   const handleRevealWinner = useCallback(
-    (categoryId: string, categoryTitle: string, results: Record<string, number>) => {
+    (categoryId: string, categoryTitle: string, winnerInfo: WinnerInfo | null) => {
       setRevealedCategories(
         (prev) => new Set(Array.from(prev).concat(categoryId))
       );
 
-      const winnerInfo = calculateWinner(results);
       if (winnerInfo) {
         setModalState({
           isOpen: true,
@@ -101,11 +233,74 @@ export default function ResultsReveal({
 
       onRevealWinner(categoryId);
     },
-    [onRevealWinner, calculateWinner]
+    [onRevealWinner]
+  );
+
+  // Launch a tie-break runoff; the card returns to "Ready to Reveal" so the
+  // runoff winner can be revealed in place of the tie
+  const handleLaunchRunoff = useCallback(
+    (categoryId: string) => {
+      if (!onLaunchRunoff) return;
+
+      setRevealedCategories((prev) => {
+        const next = new Set(prev);
+        next.delete(categoryId);
+        return next;
+      });
+      onLaunchRunoff(categoryId);
+    },
+    [onLaunchRunoff]
   );
 
+  // Put a revealed winner back behind the curtain
+  const handleConfirmUnreveal = useCallback(() => {
+    if (!pendingUnreveal || !onUnrevealWinner) return;
+
+    setRevealedCategories((prev) => {
+      const next = new Set(prev);
+      next.delete(pendingUnreveal.categoryId);
+      return next;
+    });
+    onUnrevealWinner(pendingUnreveal.categoryId);
+    setPendingUnreveal(null);
+  }, [pendingUnreveal, onUnrevealWinner]);
+
   // Filter completed categories
   const completedCategories = categories.filter((cat) => cat.completed);
+  const revealedCount = completedCategories.filter(
+    (cat) => cat.revealed || revealedCategories.has(cat.id)
+  ).length;
+
+  // The winner a card shows, as the CategoryResult a certificate is drawn from
+  const getWinnerInfo = (category: ResultsRevealProps["categories"][number]) =>
+    category.votingMode === "ranked"
+      ? getRankedWinner(category)
+      : category.results
+        ? calculateWinner(category.results)
+        : null;
+
+  const getCertificateResult = (
+    category: ResultsRevealProps["categories"][number],
+    winnerInfo: WinnerInfo
+  ): CategoryResult => ({
+    categoryId: category.id,
+    title: category.title,
+    description: category.description,
+    results: category.results || {},
+    winner: winnerInfo.winner,
+    totalVotes: winnerInfo.totalVotes,
+    revealed: true,
+    revealedAt: category.revealedAt,
+    votingMode: category.votingMode,
+  });
+
+  const certificateResults = completedCategories
+    .filter((cat) => cat.revealed || revealedCategories.has(cat.id))
+    .map((cat) => {
+      const winnerInfo = getWinnerInfo(cat);
+      return winnerInfo ? getCertificateResult(cat, winnerInfo) : null;
+    })
+    .filter(Boolean);
 
   if (completedCategories.length === 0) {
     return (
@@ -138,19 +333,48 @@ export default function ResultsReveal({
           <p className="text-lg text-gray-600">
             Reveal winners one by one to create suspense and excitement!
           </p>
+
+          {/* Staged Reveal Setting */}
+          {onRevealRunnerUp && (
+            <div className="inline-flex items-center gap-3 mt-4 text-sm text-gray-600">
+              <span>Runners-up before each winner:</span>
+              <div className="inline-flex rounded-lg border border-gray-200 overflow-hidden">
+                {Array.from({ length: MAX_RUNNER_UP_PLACES + 1 }, (_, places) => (
+                  <button
+                    key={places}
+                    onClick={() => setRunnerUpPlaces(places)}
+                    className={`px-3 py-1 font-semibold transition-colors ${runnerUpPlaces === places
+                      ? "bg-[#7ebd41] text-white"
+                      : "bg-white text-gray-600 hover:bg-gray-50"
+                      }`}
+                  >
+                    {places}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
 
         {/* Results Grid */}
         <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
           {completedCategories.map((category) => {
-            const winnerInfo = category.results
-              ? calculateWinner(category.results)
-              : null;
+            const isRanked = category.votingMode === "ranked";
+            const isApproval = category.votingMode === "approval";
+            const winnerInfo = getWinnerInfo(category);
             const topResults = category.results
-              ? getTopResults(category.results)
+              ? getTopResults(
+                category.results,
+                isApproval ? category.ballotCount : undefined
+              )
               : [];
             const isRevealed =
               category.revealed || revealedCategories.has(category.id);
+            const revealedPlaces = category.revealedPlaces || [];
+            const nextPlace =
+              !isRevealed && winnerInfo && onRevealRunnerUp
+                ? getRunnerUpSteps(category, winnerInfo)[revealedPlaces.length]
+                : undefined;
 
             return (
               <div
@@ -176,7 +400,9 @@ export default function ResultsReveal({
                   </div>
                   {winnerInfo && (
                     <div className="text-sm text-gray-600">
-                      {winnerInfo.totalVotes} votes
+                      {isApproval && category.ballotCount !== undefined
+                        ? `${category.ballotCount} voters`
+                        : `${winnerInfo.totalVotes} votes`}
                     </div>
                   )}
                 </div>
@@ -204,8 +430,9 @@ export default function ResultsReveal({
                           : winnerInfo.winner}
                       </p>
                       <p className="text-sm text-gray-600">
-                        {winnerInfo.votes} votes
+                        {winnerInfo.votes} {isApproval ? "approvals" : "votes"}
                         {winnerInfo.isTie && " each"}
+                        {isRanked && " in the final round"}
                       </p>
                     </div>
                   </div>
@@ -215,7 +442,11 @@ export default function ResultsReveal({
                 {isRevealed && topResults.length > 0 && (
                   <div className="mb-4 p-3 bg-white rounded-lg border border-gray-200">
                     <h4 className="text-sm font-semibold text-gray-700 mb-2">
-                      Final Results:
+                      {isRanked
+                        ? "First Preferences:"
+                        : isApproval
+                          ? "Approval Rates:"
+                          : "Final Results:"}
                     </h4>
                     <div className="space-y-2">
                       {topResults.map((result, index) => {
@@ -248,6 +479,92 @@ export default function ResultsReveal({
                   </div>
                 )}
 
+                {/* Instant-Runoff Rounds (only if revealed) */}
+                {isRevealed && isRanked && category.rounds && category.rounds.length > 0 && (
+                  <div className="mb-4 p-3 bg-white rounded-lg border border-gray-200">
+                    <h4 className="text-sm font-semibold text-gray-700 mb-2 flex items-center">
+                      <ListOrdered className="w-4 h-4 mr-1.5 text-[#7ebd41]" />
+                      How the Winner Emerged:
+                    </h4>
+                    <ol className="space-y-2">
+                      {category.rounds.map((round) => (
+                        <li key={round.round} className="text-xs text-gray-600">
+                          <div className="font-semibold text-gray-700">
+                            Round {round.round}
+                          </div>
+                          <div>
+                            {Object.entries(round.tallies)
+                              .filter(([, votes]) => votes > 0)
+                              .sort((a, b) => b[1] - a[1])
+                              .map(([name, votes]) => `${name} ${votes}`)
+                              .join(" · ")}
+                          </div>
+                          {round.eliminated.length > 0 && (
+                            <div className="text-red-500">
+                              Eliminated: {round.eliminated.join(", ")}
+                            </div>
+                          )}
+                          {round.exhausted > 0 && (
+                            <div className="text-gray-400">
+                              {round.exhausted} exhausted ballot
+                              {round.exhausted !== 1 ? "s" : ""}
+                            </div>
+                          )}
+                        </li>
+                      ))}
+                    </ol>
+                  </div>
+                )}
+
+                {/* Round History (only if revealed and a runoff was held) */}
+                {isRevealed && category.history && category.history.length > 1 && (
+                  <div className="mb-4 p-3 bg-white rounded-lg border border-gray-200">
+                    <h4 className="text-sm font-semibold text-gray-700 mb-2 flex items-center">
+                      <Repeat className="w-4 h-4 mr-1.5 text-[#7ebd41]" />
+                      Voting Rounds:
+                    </h4>
+                    <ol className="space-y-2">
+                      {category.history.map((round) => (
+                        <li key={round.sessionId} className="text-xs text-gray-600">
+                          <div className="font-semibold text-gray-700">
+                            {round.type === "runoff"
+                              ? `Runoff ${round.round - 1}`
+                              : "Main Vote"}
+                            {round.isTie && (
+                              <span className="ml-1 text-orange-500">(tie)</span>
+                            )}
+                          </div>
+                          <div>
+                            {Object.entries(round.results)
+                              .sort((a, b) => b[1] - a[1])
+                              .slice(0, 5)
+                              .map(([name, votes]) => `${name} ${votes}`)
+                              .join(" · ")}
+                          </div>
+                        </li>
+                      ))}
+                    </ol>
+                  </div>
+                )}
+
+                {/* Runner-Up Places Shown So Far */}
+                {!isRevealed && revealedPlaces.length > 0 && (
+                  <div className="mb-4 p-3 bg-white rounded-lg border border-gray-200 space-y-1">
+                    {revealedPlaces.map((placing) => (
+                      <div
+                        key={placing.position}
+                        className="flex justify-between items-center text-sm"
+                      >
+                        <span className="flex items-center font-medium text-gray-700">
+                          <Medal className="w-4 h-4 mr-1.5 text-[#7ebd41]" />
+                          {getPlaceLabel(placing)}: {placing.name}
+                        </span>
+                        <span className="text-gray-500">{placing.votes}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
                 {/* No Votes Message */}
                 {!winnerInfo && (
                   <div className="mb-4 p-3 bg-gray-100 rounded-lg text-center">
@@ -257,13 +574,30 @@ export default function ResultsReveal({
 
                 {/* Reveal Button */}
                 <div className="space-y-2">
-                  {!isRevealed && winnerInfo ? (
+                  {!isRevealed && nextPlace ? (
+                    <>
+                      <button
+                        onClick={() => handleRevealRunnerUp(category.id, category.title, nextPlace)}
+                        className="w-full bg-[#7ebd41] text-white py-3 px-4 rounded-lg font-semibold hover:bg-[#6ba835] transition-all duration-200 flex items-center justify-center space-x-2 transform hover:scale-105"
+                      >
+                        <Medal className="w-4 h-4" />
+                        <span>Reveal {formatPlace(nextPlace.position)}</span>
+                      </button>
+                      <button
+                        onClick={() => handleRevealWinner(category.id, category.title, winnerInfo)}
+                        className="w-full text-gray-500 py-2 px-4 rounded-lg text-sm font-semibold hover:bg-gray-100 transition-all duration-200 flex items-center justify-center space-x-2"
+                      >
+                        <SkipForward className="w-4 h-4" />
+                        <span>Skip to Winner</span>
+                      </button>
+                    </>
+                  ) : !isRevealed && winnerInfo ? (
                     <button
-                      onClick={() => handleRevealWinner(category.id, category.title, category.results || {})}
+                      onClick={() => handleRevealWinner(category.id, category.title, winnerInfo)}
                       className="w-full bg-[#7ebd41] text-white py-3 px-4 rounded-lg font-semibold hover:bg-[#6ba835] transition-all duration-200 flex items-center justify-center space-x-2 transform hover:scale-105"
                     >
                       <Sparkles className="w-4 h-4" />
-                      <span>Reveal Winner</span>
+                      <span>{revealedPlaces.length > 0 ? "And the Winner Is..." : "Reveal Winner"}</span>
                     </button>
                   ) : !isRevealed && !winnerInfo ? (
                     <div className="w-full bg-gray-300 text-gray-500 py-3 px-4 rounded-lg font-semibold flex items-center justify-center cursor-not-allowed">
@@ -276,6 +610,52 @@ export default function ResultsReveal({
                       Winner Revealed
                     </div>
                   )}
+
+                  {/* Certificate Download Button */}
+                  {isRevealed && winnerInfo && (
+                    <button
+                      onClick={() =>
+                        downloadCertificate(
+                          getCertificateResult(category, winnerInfo)
+                        )
+                      }
+                      className="w-full bg-white text-[#7ebd41] border-2 border-[#7ebd41]/40 py-3 px-4 rounded-lg font-semibold hover:bg-[#7ebd41]/5 transition-all duration-200 flex items-center justify-center space-x-2"
+                    >
+                      <Award className="w-4 h-4" />
+                      <span>Download Certificate</span>
+                    </button>
+                  )}
+
+                  {/* Undo Reveal Button */}
+                  {isRevealed && winnerInfo && onUnrevealWinner && (
+                    <button
+                      onClick={() =>
+                        setPendingUnreveal({
+                          categoryId: category.id,
+                          categoryTitle: category.title,
+                          winnerName: Array.isArray(winnerInfo.winner)
+                            ? winnerInfo.winner.join(" & ")
+                            : winnerInfo.winner,
+                        })
+                      }
+                      className="w-full bg-white text-gray-600 border-2 border-gray-200 py-3 px-4 rounded-lg font-semibold hover:bg-gray-50 transition-all duration-200 flex items-center justify-center space-x-2"
+                    >
+                      <Undo2 className="w-4 h-4" />
+                      <span>Undo Reveal</span>
+                    </button>
+                  )}
+
+                  {/* Tie-Break Runoff Button */}
+                  {winnerInfo?.isTie && onLaunchRunoff && (
+                    <button
+                      onClick={() => handleLaunchRunoff(category.id)}
+                      disabled={!canLaunchRunoff}
+                      className="w-full bg-white text-[#4c4c4c] border-2 border-orange-300 py-3 px-4 rounded-lg font-semibold hover:bg-orange-50 transition-all duration-200 flex items-center justify-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      <Repeat className="w-4 h-4 text-orange-500" />
+                      <span>Launch Tie-Break Runoff</span>
+                    </button>
+                  )}
                 </div>
               </div>
             );
@@ -289,23 +669,29 @@ export default function ResultsReveal({
               <div className="flex items-center">
                 <div className="w-3 h-3 bg-[#7ebd41] rounded-full mr-2"></div>
                 <span className="text-[#7ebd41] font-semibold">
-                  {revealedCategories.size +
-                    categories.filter((cat) => cat.revealed).length}{" "}
-                  Revealed
+                  {revealedCount} Revealed
                 </span>
               </div>
               <div className="flex items-center">
                 <div className="w-3 h-3 bg-gray-400 rounded-full mr-2"></div>
                 <span className="text-gray-600">
-                  {completedCategories.length -
-                    revealedCategories.size -
-                    categories.filter((cat) => cat.revealed).length}{" "}
-                  Pending
+                  {completedCategories.length - revealedCount} Pending
                 </span>
               </div>
             </div>
-            <div className="text-gray-500">
-              {completedCategories.length} Categories Complete
+            <div className="flex items-center space-x-4">
+              {certificateResults.length > 0 && (
+                <button
+                  onClick={() => downloadCertificatesZip(certificateResults)}
+                  className="flex items-center text-[#7ebd41] font-semibold hover:underline"
+                >
+                  <Download className="w-4 h-4 mr-1" />
+                  All Certificates (ZIP)
+                </button>
+              )}
+              <span className="text-gray-500">
+                {completedCategories.length} Categories Complete
+              </span>
             </div>
           </div>
         </div>
@@ -316,6 +702,20 @@ export default function ResultsReveal({
         onClose={() => setModalState((prev) => ({ ...prev, isOpen: false }))}
         categoryTitle={modalState.categoryTitle}
         winnerName={modalState.winnerName}
+        placeLabel={modalState.placeLabel}
+      />
+
+      <ConfirmationModal
+        isOpen={!!pendingUnreveal}
+        title="Hide This Winner?"
+        description="The winner goes back behind the curtain on every screen:"
+        subjectLabel="Currently showing for"
+        categoryTitle={pendingUnreveal?.categoryTitle || ""}
+        nominee={pendingUnreveal?.winnerName || ""}
+        confirmLabel="Hide Winner"
+        footnote="Votes are kept. You can reveal this category again at any time."
+        onConfirm={handleConfirmUnreveal}
+        onCancel={() => setPendingUnreveal(null)}
       />
     </>
   );
@@ -0,0 +1,99 @@
+"use client";
+
+import { Users, CheckCircle } from "lucide-react";
+import { TurnoutTrackerProps } from "../../types/components";
+import { calculatePercentage } from "../../types/utils";
+
+const RING_RADIUS = 52;
+const RING_CIRCUMFERENCE = 2 * Math.PI * RING_RADIUS;
+
+export default function TurnoutTracker({
+  turnout,
+  onToggleAutoClose,
+}: TurnoutTrackerProps) {
+  const percentage = calculatePercentage(turnout.voted, turnout.total);
+  const isComplete = turnout.total > 0 && turnout.voted === turnout.total;
+
+  return (
+    <section className="glass-card p-6 sm:p-8 mb-12">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+        <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+          <Users className="w-5 h-5 text-gritfeat-green" /> Turnout
+        </h3>
+        <label className="flex items-center gap-2 text-sm font-bold text-slate-600 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={turnout.autoClose}
+            onChange={(e) => onToggleAutoClose(e.target.checked)}
+            className="w-4 h-4 accent-gritfeat-green"
+          />
+          Auto-close when 100% voted
+        </label>
+      </div>
+
+      <div className="flex flex-col md:flex-row items-center gap-8">
+        {/* Progress ring */}
+        <div className="relative w-40 h-40 flex-shrink-0">
+          <svg viewBox="0 0 120 120" className="w-full h-full -rotate-90">
+            <circle
+              cx="60"
+              cy="60"
+              r={RING_RADIUS}
+              fill="none"
+              strokeWidth="12"
+              className="stroke-slate-100"
+            />
+            <circle
+              cx="60"
+              cy="60"
+              r={RING_RADIUS}
+              fill="none"
+              strokeWidth="12"
+              strokeLinecap="round"
+              strokeDasharray={RING_CIRCUMFERENCE}
+              strokeDashoffset={RING_CIRCUMFERENCE * (1 - percentage / 100)}
+              className="stroke-gritfeat-green transition-all duration-500"
+            />
+          </svg>
+          <div className="absolute inset-0 flex flex-col items-center justify-center">
+            <span className="text-3xl font-black text-slate-800">{percentage}%</span>
+            <span className="text-xs font-bold text-slate-400">
+              {turnout.voted} of {turnout.total}
+            </span>
+          </div>
+        </div>
+
+        {/* Who is still to vote - names only, never their picks */}
+        <div className="flex-1 w-full">
+          {isComplete ? (
+            <p className="flex items-center gap-2 font-bold text-gritfeat-green">
+              <CheckCircle className="w-5 h-5" /> Everyone has voted
+            </p>
+          ) : turnout.total === 0 ? (
+            <p className="text-sm text-slate-400 font-medium">No participants connected.</p>
+          ) : (
+            <>
+              <p className="text-xs font-black text-slate-400 uppercase tracking-widest mb-3">
+                Still to vote ({turnout.waiting.length})
+              </p>
+              <div className="flex flex-wrap gap-2 max-h-40 overflow-y-auto">
+                {turnout.waiting.map((participant) => (
+                  <span
+                    key={participant.id}
+                    className={`px-3 py-1.5 rounded-xl bg-white border border-slate-100 text-sm font-bold ${participant.presence === "away" ? "text-slate-300" : "text-slate-600"}`}
+                    title={participant.presence === "away" ? "Away - lost connection" : undefined}
+                  >
+                    {participant.name}
+                    {participant.presence === "away" && (
+                      <span className="ml-1 text-xs font-medium">(away)</span>
+                    )}
+                  </span>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -8,6 +8,7 @@ import {
   Trophy,
   Wifi,
   WifiOff,
+  Pause,
 } from "lucide-react";
 import Image from "next/image";
 import { WaitingStateProps } from "../../types/components";
@@ -19,6 +20,7 @@ export default function WaitingState({
   nextCategoryTitle,
   connectionStatus = "connected",
   isReconnecting = false,
+  onChangeVote,
 }: WaitingStateProps) {
   // Safety checks for props
   const safeParticipantCount =
@@ -72,6 +74,15 @@ export default function WaitingState({
           subtitle: "Results will be announced shortly",
         };
 
+      case "voting-paused":
+        return {
+          icon: <Pause className="w-8 h-8 sm:w-12 sm:h-12 text-orange-500" />,
+          title: "Voting Paused",
+          message: WAITING_MESSAGES.votingPaused,
+          iconBg: "bg-orange-500/10",
+          subtitle: "The admin has paused this category for a moment",
+        };
+
       case "voted":
         return {
           icon: (
@@ -208,6 +219,29 @@ export default function WaitingState({
               </div>
             </div>
           )}
+
+          {state === "voting-paused" && (
+            <div className="bg-white rounded-lg p-3 sm:p-4 shadow-sm border border-gray-200">
+              <div className="flex items-center justify-center text-orange-600 mb-2">
+                <Clock className="w-4 h-4 mr-2" />
+                <span className="text-sm sm:text-base font-medium">
+                  Timer frozen
+                </span>
+              </div>
+              <div className="text-xs sm:text-sm text-gray-600">
+                The countdown picks up where it left off when voting resumes
+              </div>
+            </div>
+          )}
+
+          {state === "voted" && onChangeVote && (
+            <button
+              onClick={onChangeVote}
+              className="w-full py-3 bg-white border-2 border-[#7ebd41] text-[#7ebd41] hover:bg-[#7ebd41] hover:text-white rounded-lg font-semibold transition-colors touch-manipulation active:scale-[0.98]"
+            >
+              Change My Vote
+            </button>
+          )}
         </div>
 
         {/* Connection Status */}
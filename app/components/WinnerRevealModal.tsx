@@ -2,13 +2,17 @@
 
 import { useEffect, useRef, useState } from "react";
 import { createPortal } from "react-dom";
-import { X, Trophy, Sparkles } from "lucide-react";
+import { X, Trophy, Sparkles, CheckCircle, Medal } from "lucide-react";
+import { serverNow } from "../utils/serverClock";
 
 interface WinnerRevealModalProps {
     isOpen: boolean;
     onClose: () => void;
     categoryTitle: string;
     winnerName: string | string[];
+    revealAt?: number; // Server time when the winner replaces the suspense screen
+    ownPick?: string[]; // The viewer's own vote, shown under the winner
+    placeLabel?: string; // Runner-up step of a staged reveal, e.g. "3rd Place"
 }
 
 export default function WinnerRevealModal({
@@ -16,10 +20,29 @@ export default function WinnerRevealModal({
     onClose,
     categoryTitle,
     winnerName,
+    revealAt,
+    ownPick,
+    placeLabel,
 }: WinnerRevealModalProps) {
     const modalRef = useRef<HTMLDivElement>(null);
     const closeButtonRef = useRef<HTMLButtonElement>(null);
     const [mounted, setMounted] = useState(false);
+    const [isSuspense, setIsSuspense] = useState(false);
+
+    // Every screen counts down to the same server timestamp, so they all flip together
+    useEffect(() => {
+        if (!isOpen) return;
+
+        const delay = revealAt ? revealAt - serverNow() : 0;
+        if (delay <= 0) {
+            setIsSuspense(false);
+            return;
+        }
+
+        setIsSuspense(true);
+        const timer = setTimeout(() => setIsSuspense(false), delay);
+        return () => clearTimeout(timer);
+    }, [isOpen, revealAt]);
 
     useEffect(() => {
         setMounted(true);
@@ -58,6 +81,8 @@ export default function WinnerRevealModal({
     const winnerDisplay = Array.isArray(winnerName)
         ? winnerName.join(" & ")
         : winnerName;
+    const winners = Array.isArray(winnerName) ? winnerName : [winnerName];
+    const calledIt = !!ownPick && ownPick.some((pick) => winners.includes(pick));
 
     return createPortal(
         <div
@@ -92,38 +117,86 @@ export default function WinnerRevealModal({
 
                 {/* Content Section */}
                 <div className="p-8 sm:p-12 flex flex-col items-center text-center">
-                    {/* Icon Trophy */}
-                    <div className="relative mb-8">
-                        <div className="absolute inset-0 bg-[#7ebd41] blur-2xl opacity-20 rounded-full animate-pulse" />
-                        <div className="relative w-24 h-24 bg-gradient-to-br from-[#7ebd41] to-[#6ba835] rounded-full flex items-center justify-center shadow-xl">
-                            <Trophy className="w-12 h-12 text-white animate-bounce-slow" />
-                        </div>
-                        <Sparkles className="absolute -top-1 -right-1 w-8 h-8 text-[#7ebd41] animate-pulse" />
-                        <Sparkles className="absolute -bottom-2 -left-3 w-6 h-6 text-[#7ebd41] opacity-60 animate-pulse delay-75" />
-                    </div>
-
-                    {/* Text Content */}
-                    <div className="space-y-4">
-                        <h3 className="text-sm sm:text-base font-bold text-[#7ebd41] uppercase tracking-[0.2em]">
-                            Winner Revealed
-                        </h3>
-
-                        <div className="space-y-2">
-                            <h2 className="text-xl sm:text-2xl font-medium text-gray-500">
-                                {categoryTitle}
-                            </h2>
-
-                            <div className="py-4">
-                                <p className="text-4xl sm:text-5xl lg:text-6xl font-black text-[#4c4c4c] leading-tight tracking-tight drop-shadow-sm">
-                                    {winnerDisplay}
+                    {isSuspense ? (
+                        <>
+                            {/* Suspense */}
+                            <div className="relative mb-8">
+                                <div className="absolute inset-0 bg-[#7ebd41] blur-2xl opacity-30 rounded-full animate-ping" />
+                                <div className="relative w-24 h-24 bg-gradient-to-br from-[#7ebd41] to-[#6ba835] rounded-full flex items-center justify-center shadow-xl animate-pulse">
+                                    <Trophy className="w-12 h-12 text-white animate-wiggle" />
+                                </div>
+                            </div>
+                            <div className="space-y-4">
+                                <h3 className="text-sm sm:text-base font-bold text-[#7ebd41] uppercase tracking-[0.2em]">
+                                    And the Winner Is
+                                </h3>
+                                <h2 className="text-xl sm:text-2xl font-medium text-gray-500">
+                                    {categoryTitle}
+                                </h2>
+                                <div className="flex justify-center gap-2 py-6" aria-hidden="true">
+                                    <span className="w-3 h-3 bg-[#7ebd41] rounded-full animate-bounce" />
+                                    <span className="w-3 h-3 bg-[#7ebd41] rounded-full animate-bounce [animation-delay:150ms]" />
+                                    <span className="w-3 h-3 bg-[#7ebd41] rounded-full animate-bounce [animation-delay:300ms]" />
+                                </div>
+                            </div>
+                        </>
+                    ) : (
+                        <>
+                            {/* Icon Trophy */}
+                            <div className="relative mb-8">
+                                <div className="absolute inset-0 bg-[#7ebd41] blur-2xl opacity-20 rounded-full animate-pulse" />
+                                <div className="relative w-24 h-24 bg-gradient-to-br from-[#7ebd41] to-[#6ba835] rounded-full flex items-center justify-center shadow-xl">
+                                    {placeLabel ? (
+                                        <Medal className="w-12 h-12 text-white animate-bounce-slow" />
+                                    ) : (
+                                        <Trophy className="w-12 h-12 text-white animate-bounce-slow" />
+                                    )}
+                                </div>
+                                <Sparkles className="absolute -top-1 -right-1 w-8 h-8 text-[#7ebd41] animate-pulse" />
+                                <Sparkles className="absolute -bottom-2 -left-3 w-6 h-6 text-[#7ebd41] opacity-60 animate-pulse delay-75" />
+                            </div>
+
+                            {/* Text Content */}
+                            <div className="space-y-4">
+                                <h3 className="text-sm sm:text-base font-bold text-[#7ebd41] uppercase tracking-[0.2em]">
+                                    {placeLabel || "Winner Revealed"}
+                                </h3>
+
+                                <div className="space-y-2">
+                                    <h2 className="text-xl sm:text-2xl font-medium text-gray-500">
+                                        {categoryTitle}
+                                    </h2>
+
+                                    <div className="py-4">
+                                        <p className="text-4xl sm:text-5xl lg:text-6xl font-black text-[#4c4c4c] leading-tight tracking-tight drop-shadow-sm">
+                                            {winnerDisplay}
+                                        </p>
+                                    </div>
+                                </div>
+
+                                <p className="text-gray-500 text-sm sm:text-base max-w-[280px] mx-auto opacity-80">
+                                    {placeLabel
+                                        ? "The winner is still to come..."
+                                        : "Congratulations to the winner for their outstanding achievement!"}
                                 </p>
                             </div>
-                        </div>
 
-                        <p className="text-gray-500 text-sm sm:text-base max-w-[280px] mx-auto opacity-80">
-                            Congratulations to the winner for their outstanding achievement!
-                        </p>
-                    </div>
+                            {/* The viewer's own vote */}
+                            {ownPick && (
+                                <div
+                                    className={`mt-6 flex items-center justify-center gap-2 px-4 py-3 rounded-2xl text-sm font-semibold ${calledIt
+                                        ? "bg-[#7ebd41]/10 text-[#6ba835]"
+                                        : "bg-gray-100 text-gray-500"
+                                        }`}
+                                >
+                                    {calledIt && <CheckCircle className="w-4 h-4 flex-shrink-0" />}
+                                    {ownPick.length === 0
+                                        ? "You didn't vote in this category"
+                                        : `${calledIt ? "You called it! " : ""}Your pick: ${ownPick.join(", ")}`}
+                                </div>
+                            )}
+                        </>
+                    )}
 
                     {/* Action Button */}
                     <button
@@ -147,6 +220,13 @@ export default function WinnerRevealModal({
         .animate-bounce-slow {
           animation: bounce-slow 3s infinite ease-in-out;
         }
+        @keyframes wiggle {
+          0%, 100% { transform: rotate(-8deg); }
+          50% { transform: rotate(8deg); }
+        }
+        .animate-wiggle {
+          animation: wiggle 0.4s infinite ease-in-out;
+        }
       `}</style>
         </div>,
         document.body
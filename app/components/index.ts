@@ -4,3 +4,9 @@ export { default as ResultsReveal } from "./ResultsReveal";
 export { default as ErrorBoundary } from "./ErrorBoundary";
 export { default as WaitingState } from "./WaitingState";
 export { default as AdminLogin } from "./AdminLogin";
+export { default as IdentityClaim } from "./IdentityClaim";
+export { default as CategoryEditor } from "./CategoryEditor";
+export { default as EventImport } from "./EventImport";
+export { default as InviteManager } from "./InviteManager";
+export { default as TurnoutTracker } from "./TurnoutTracker";
+export { default as ConnectionBanner } from "./ConnectionBanner";
@@ -1,18 +1,48 @@
 "use client";
 
 import { useState, useEffect, useCallback } from "react";
-import { Vote, Clock, CheckCircle, Users } from "lucide-react";
-import { io, Socket } from "socket.io-client";
+import { Vote, Clock, CheckCircle, Users, X, ChevronUp, Ticket } from "lucide-react";
+import { Socket } from "socket.io-client";
 import Image from "next/image";
-import { VotingSession, VoterState } from "../../types";
+import {
+  VotingSession,
+  VoterState,
+  VotingMode,
+  IdentityStatus,
+  CategoryResult,
+  RunnerUpReveal,
+  VoteError,
+  InviteErrorCode,
+  formatPlace,
+  validateBallot,
+  getVoteErrorMessage,
+} from "../../types";
+import {
+  DEFAULT_MAX_SELECTIONS,
+  COUNTDOWN_WARNING_SECONDS,
+} from "../../types/constants";
 import ConfirmationModal from "../components/ConfirmationModal";
 import WaitingState from "../components/WaitingState";
+import IdentityClaim from "../components/IdentityClaim";
+import WinnerRevealModal from "../components/WinnerRevealModal";
+import ConnectionBanner from "../components/ConnectionBanner";
 import {
   getParticipantStateManager,
   ParticipantStateManager,
 } from "../utils/participantStateManager";
 import { getServerUrl } from "../utils/getServerUrl";
 import { getDeviceId } from "../utils/deviceId";
+import { getInviteToken, getStoredInviteToken } from "../utils/inviteToken";
+import {
+  ConnectionManager,
+  ConnectionState,
+  VoteStatusUpdate,
+} from "../utils/connectionManager";
+import {
+  getSecondsLeft,
+  getSessionSecondsLeft,
+  syncServerClock,
+} from "../utils/serverClock";
 
 // Utility function to safely log objects
 const safeLog = (message: string, data?: any) => {
@@ -41,13 +71,23 @@ interface LegacyVotingSession {
   endTime: number;
   results: Record<string, number>;
   options: string[];
+  votingMode?: VotingMode;
+  maxSelections?: number;
+  parentCategoryId?: string;
+  phase?: VotingSession["phase"];
+  remainingTime?: number;
 }
 
-// Global socket instance to prevent multiple connections
-let globalSocket: Socket | null = null;
+// Global connection to prevent multiple connections
+let globalConnection: ConnectionManager | null = null;
 
 export default function ParticipantPage() {
   const [socket, setSocket] = useState<Socket | null>(null);
+  const [connectionManager, setConnectionManager] =
+    useState<ConnectionManager | null>(null);
+  const [connectionState, setConnectionState] =
+    useState<ConnectionState | null>(null);
+  const [voteStatus, setVoteStatus] = useState<VoteStatusUpdate | null>(null);
   const [participantId, setParticipantId] = useState<string>("");
   const [participantName, setParticipantName] = useState<string>("");
   const [votingSession, setVotingSession] =
@@ -63,25 +103,42 @@ export default function ParticipantPage() {
   });
   const [timeLeft, setTimeLeft] = useState<number>(0);
   const [participantCount, setParticipantCount] = useState<number>(0);
-  const [isConnected, setIsConnected] = useState<boolean>(false);
-  const [connectionAttempts, setConnectionAttempts] = useState<number>(0);
   const [searchQuery, setSearchQuery] = useState<string>("");
   const [showConfirmation, setShowConfirmation] = useState<boolean>(false);
   const [pendingVote, setPendingVote] = useState<string>("");
+  const [ranking, setRanking] = useState<string[]>([]);
+  const [approvals, setApprovals] = useState<string[]>([]);
+  const [isChangingVote, setIsChangingVote] = useState<boolean>(false);
   const [voteValidationError, setVoteValidationError] = useState<string>("");
   const [sessionComplete, setSessionComplete] = useState<boolean>(false);
   const [nextCategoryTitle, setNextCategoryTitle] = useState<string>("");
   const [deviceId, setDeviceId] = useState<string>("");
-
-  const createSocketConnection = useCallback(() => {
+  const [inviteToken, setInviteToken] = useState<string>("");
+  const [inviteError, setInviteError] = useState<InviteErrorCode | null>(null);
+  const [roster, setRoster] = useState<string[]>([]);
+  const [takenNames, setTakenNames] = useState<string[]>([]);
+  const [identity, setIdentity] = useState<{
+    status: IdentityStatus;
+    name?: string;
+  }>({ status: "unclaimed" });
+  const [winnerReveal, setWinnerReveal] = useState<{
+    categoryId: string;
+    title: string;
+    winner: string | string[];
+    revealAt?: number;
+    ownPick?: string[];
+    placeLabel?: string;
+  } | null>(null);
+
+  const isConnected = connectionState?.status === "connected";
+
+  // ConnectionManager owns the socket: reconnects, heartbeats, latency and
+  // the offline vote queue. This wires the page's own events onto it
+  const createSocketConnection = useCallback((manager: ConnectionManager) => {
     const serverUrl = getServerUrl();
     safeLog("Connecting to server:", serverUrl);
 
-    const newSocket = io(serverUrl, {
-      reconnection: true,
-      reconnectionAttempts: 10,
-      reconnectionDelay: 2000,
-      reconnectionDelayMax: 10000,
+    const newSocket = manager.connect(serverUrl, {
       timeout: 30000,
       forceNew: false,
       autoConnect: true,
@@ -90,17 +147,15 @@ export default function ParticipantPage() {
       rememberUpgrade: true,
     });
 
-    // Connection events
+    // Connection events; every reconnect arrives here too
     newSocket.on("connect", () => {
       safeLog("Connected to server");
-      setIsConnected(true);
-      setConnectionAttempts(0);
 
       // Add a small delay to ensure connection is stable before joining rooms
       setTimeout(() => {
         if (newSocket.connected) {
           // Join voting room
-          newSocket.emit("join-voting", { participantId });
+          newSocket.emit("join-voting", { participantId, inviteToken });
 
           // Request current voting status to sync state
           newSocket.emit("request-voting-status");
@@ -110,16 +165,17 @@ export default function ParticipantPage() {
 
           // Request participant count update
           newSocket.emit("request-participant-count");
+
+          // Back in the room: send any ballots cast while offline
+          manager.markReady();
         }
       }, 100);
     });
 
     newSocket.on("disconnect", (reason) => {
       safeLog("Disconnected:", reason);
-      setIsConnected(false);
 
-      // Don't manually reconnect - let Socket.IO handle it
-      // Only log the reason for debugging
+      // ConnectionManager schedules the reconnect; only log the reason for debugging
       if (reason === "io server disconnect") {
         safeLog("Server disconnected us - Socket.IO will handle reconnection");
       } else if (reason === "io client disconnect") {
@@ -130,56 +186,83 @@ export default function ParticipantPage() {
     });
 
     newSocket.on("connect_error", (error) => {
-      safeLog("Connection error:", error);
-      setIsConnected(false);
-      setConnectionAttempts((prev) => prev + 1);
+      safeLog("Connection error:", error.message);
     });
 
-    newSocket.on("reconnect", (attemptNumber) => {
-      safeLog("Reconnected after", attemptNumber + " attempts");
-      setIsConnected(true);
-      setConnectionAttempts(0);
-
-      // Add a small delay to ensure reconnection is stable
-      setTimeout(() => {
-        if (newSocket.connected) {
-          // Rejoin voting room after reconnection
-          newSocket.emit("join-voting", { participantId });
-
-          // Request current voting status to sync state
-          newSocket.emit("request-voting-status");
+    newSocket.on("server-time", (serverTime) => {
+      syncServerClock(serverTime);
+    });
 
-          // Also request admin status to get current session info
-          newSocket.emit("request-admin-status");
+    // Listen for voting events
+    newSocket.on("participant-info", (data) => {
+      setParticipantName(data.name);
+      setInviteError(null);
+    });
 
-          // Request participant count update
-          newSocket.emit("request-participant-count");
-        }
-      }, 200);
+    // Invite-only voting turned this link away
+    newSocket.on("invite-error", (data: { code: InviteErrorCode }) => {
+      safeLog("Invite rejected:", data.code);
+      setInviteError(data.code);
     });
 
-    newSocket.on("reconnect_error", (error) => {
-      safeLog("Reconnection error:", error);
-      setIsConnected(false);
+    // Roster identity ("who are you?") updates
+    newSocket.on("roster", (data) => {
+      setRoster(data?.names || []);
+      setTakenNames(data?.taken || []);
     });
 
-    newSocket.on("reconnect_failed", () => {
-      safeLog("Reconnection failed after all attempts");
-      setIsConnected(false);
+    newSocket.on("identity-status", (data) => {
+      safeLog("Received identity-status:", data);
+      setIdentity(data);
+      setVoteValidationError("");
     });
 
-    // Listen for voting events
-    newSocket.on("participant-info", (data) => {
-      setParticipantName(data.name);
+    newSocket.on("error", (message) => {
+      safeLog("Server error:", message);
+      if (typeof message === "string") {
+        setVoteValidationError(message);
+      }
     });
 
+    // Ballots the server turned away come back with a code
+    newSocket.on(
+      "vote-error",
+      (
+        error: VoteError & {
+          action: "submit-vote" | "change-vote";
+          categoryId: string | null;
+        }
+      ) => {
+        safeLog("Vote rejected:", error.code);
+        setVoteValidationError(getVoteErrorMessage(error));
+
+        // A first ballot that wasn't counted is taken back so the participant
+        // can vote again; "already voted" means the server has their ballot
+        if (
+          stateManager &&
+          error.action === "submit-vote" &&
+          error.categoryId &&
+          error.code !== "already-voted" &&
+          error.code !== "device-already-voted"
+        ) {
+          stateManager.discardVote(error.categoryId);
+        }
+
+        // The session has moved on; catch up with where it is now
+        if (
+          error.code === "unknown-category" ||
+          error.code === "no-active-session"
+        ) {
+          newSocket.emit("request-voting-status");
+        }
+      }
+    );
+
     newSocket.on("voting-status", (session) => {
       safeLog("Received voting-status:", session);
       setVotingSession(session);
       if (session && session.active && stateManager) {
-        setTimeLeft(
-          Math.max(0, Math.floor((session.endTime - Date.now()) / 1000))
-        );
+        setTimeLeft(getSessionSecondsLeft(session));
         stateManager.handleVotingSessionStart(session.categoryId);
       } else if (session && stateManager) {
         stateManager.handleVotingSessionEnd();
@@ -190,20 +273,15 @@ export default function ParticipantPage() {
       safeLog("Received voting-started:", session);
       setVotingSession(session);
 
-      // Calculate time left based on session end time
-      if (session.endTime) {
-        const calculatedTimeLeft = Math.max(
-          0,
-          Math.floor((session.endTime - Date.now()) / 1000)
-        );
-        setTimeLeft(calculatedTimeLeft);
-      } else {
-        setTimeLeft(30); // Fallback to 30 seconds
-      }
+      // Calculate time left based on the server's session end time
+      setTimeLeft(getSessionSecondsLeft(session));
 
       setSearchQuery(""); // Clear search when new voting starts
       setShowConfirmation(false);
       setPendingVote("");
+      setRanking([]);
+      setApprovals([]);
+      setIsChangingVote(false);
       setVoteValidationError("");
 
       // Update state manager
@@ -213,30 +291,50 @@ export default function ParticipantPage() {
     });
 
     // Listen for new category-started event
-    newSocket.on("category-started", (session) => {
-      safeLog("Received category-started:", session);
+    // A reopened category behaves like a fresh start; earlier votes stay locked in
+    const handleCategoryOpened = (session) => {
       setVotingSession(session);
 
-      // Calculate time left based on session end time
-      if (session.endTime) {
-        const calculatedTimeLeft = Math.max(
-          0,
-          Math.floor((session.endTime - Date.now()) / 1000)
-        );
-        setTimeLeft(calculatedTimeLeft);
-      } else {
-        setTimeLeft(30); // Fallback to 30 seconds
-      }
+      // Calculate time left based on the server's session end time
+      setTimeLeft(getSessionSecondsLeft(session));
 
       setSearchQuery(""); // Clear search when new voting starts
       setShowConfirmation(false);
       setPendingVote("");
+      setRanking([]);
+      setApprovals([]);
+      setIsChangingVote(false);
       setVoteValidationError("");
 
       // Update state manager
       if (stateManager) {
         stateManager.handleVotingSessionStart(session.categoryId);
       }
+    };
+
+    newSocket.on("category-started", (session) => {
+      safeLog("Received category-started:", session);
+      handleCategoryOpened(session);
+    });
+
+    newSocket.on("category-reopened", (session) => {
+      safeLog("Received category-reopened:", session);
+      handleCategoryOpened(session);
+    });
+
+    // Paused categories stay open but hide the ballot until they resume
+    newSocket.on("category-paused", (session) => {
+      safeLog("Received category-paused:", session);
+      setVotingSession(session);
+      setTimeLeft(getSessionSecondsLeft(session));
+      setShowConfirmation(false);
+      setPendingVote("");
+    });
+
+    newSocket.on("category-resumed", (session) => {
+      safeLog("Received category-resumed:", session);
+      setVotingSession(session);
+      setTimeLeft(getSessionSecondsLeft(session));
     });
 
     newSocket.on("voting-results", (session) => {
@@ -249,7 +347,20 @@ export default function ParticipantPage() {
       safeLog("Vote confirmed:", data);
       // Update voter state and record in history to prevent resets on status updates
       if (stateManager) {
-        stateManager.recordVote(data.categoryId, data.option);
+        stateManager.recordVote(data.categoryId, data.option, {
+          ranking: data.ranking,
+          selections: data.selections,
+        });
+      }
+    });
+
+    newSocket.on("vote-changed", (data) => {
+      safeLog("Vote changed:", data);
+      if (stateManager) {
+        stateManager.changeVote(data.categoryId, data.option, {
+          ranking: data.ranking,
+          selections: data.selections,
+        });
       }
     });
 
@@ -259,9 +370,7 @@ export default function ParticipantPage() {
       setVotingSession(session);
 
       if (session && session.active && stateManager) {
-        setTimeLeft(
-          Math.max(0, Math.floor((session.endTime - Date.now()) / 1000))
-        );
+        setTimeLeft(getSessionSecondsLeft(session));
         stateManager.handleVotingSessionStart(session.categoryId);
       } else if (session && stateManager) {
         stateManager.handleVotingSessionEnd();
@@ -273,6 +382,8 @@ export default function ParticipantPage() {
       safeLog("Received voting-ended:", session);
       setVotingSession(session);
       setTimeLeft(0);
+      setIsChangingVote(false);
+      setShowConfirmation(false);
 
       if (stateManager) {
         stateManager.handleVotingSessionEnd();
@@ -284,12 +395,63 @@ export default function ParticipantPage() {
       safeLog("Received category-stopped:", session);
       setVotingSession(session);
       setTimeLeft(0);
+      setIsChangingVote(false);
+      setShowConfirmation(false);
 
       if (stateManager) {
         stateManager.handleVotingSessionEnd();
       }
     });
 
+    // Every phone shows the winner at the server's revealAt, with this voter's pick
+    newSocket.on("winner-revealed", (result: CategoryResult) => {
+      safeLog("Received winner-revealed:", result.categoryId);
+      let ownPick: string[] = [];
+      if (stateManager) {
+        // A tie-break runoff ballot replaces the original pick
+        const runoffVote = stateManager
+          .getVotingHistory()
+          .filter((vote) =>
+            vote.categoryId.startsWith(`${result.categoryId}--runoff-`)
+          )
+          .pop();
+        const categoryId = runoffVote ? runoffVote.categoryId : result.categoryId;
+
+        if (result.votingMode === "approval" && !runoffVote) {
+          ownPick = stateManager.getSelectionsForCategory(categoryId);
+        } else {
+          const vote = stateManager.getVoteForCategory(categoryId);
+          ownPick = vote ? [vote] : [];
+        }
+      }
+      setWinnerReveal({
+        categoryId: result.categoryId,
+        title: result.title,
+        winner: result.winner,
+        revealAt: result.revealAt,
+        ownPick,
+      });
+    });
+
+    // Staged reveals show each runner-up place before the winner
+    newSocket.on("runner-up-revealed", (placing: RunnerUpReveal) => {
+      safeLog("Received runner-up-revealed:", placing.categoryId);
+      setWinnerReveal({
+        categoryId: placing.categoryId,
+        title: placing.title,
+        winner: placing.name,
+        placeLabel: placing.isTie
+          ? `Tied for ${formatPlace(placing.position)}`
+          : formatPlace(placing.position),
+      });
+    });
+
+    newSocket.on("winner-hidden", ({ categoryId }) => {
+      setWinnerReveal((prev) =>
+        prev && prev.categoryId === categoryId ? null : prev
+      );
+    });
+
     newSocket.on("session-complete", () => {
       setSessionComplete(true);
       if (stateManager) {
@@ -319,14 +481,8 @@ export default function ParticipantPage() {
       if (data.currentSession) {
         setVotingSession(data.currentSession);
         if (data.currentSession.active && stateManager) {
-          // Calculate time left based on session end time
-          if (data.currentSession.endTime) {
-            const calculatedTimeLeft = Math.max(
-              0,
-              Math.floor((data.currentSession.endTime - Date.now()) / 1000)
-            );
-            setTimeLeft(calculatedTimeLeft);
-          }
+          // Calculate time left based on the server's session end time
+          setTimeLeft(getSessionSecondsLeft(data.currentSession));
           stateManager.handleVotingSessionStart(data.currentSession.categoryId);
         }
       }
@@ -353,13 +509,19 @@ export default function ParticipantPage() {
     });
 
     return newSocket;
-  }, [participantId, stateManager, votingSession]);
+  }, [participantId, inviteToken, stateManager, votingSession]);
 
   // Initialize participant ID, device ID, and state manager
   useEffect(() => {
+    // A different invite link on this device means a different voter, so
+    // they start with a fresh participant ID and vote history
+    const previousInvite = getStoredInviteToken();
+    const invite = getInviteToken();
+    setInviteToken(invite);
+
     // Get or generate participant ID (persisted)
     let id = localStorage.getItem('voting_participant_id');
-    if (!id) {
+    if (!id || (previousInvite && invite !== previousInvite)) {
       id = Math.random().toString(36).substring(2, 11);
       localStorage.setItem('voting_participant_id', id);
     }
@@ -391,10 +553,11 @@ export default function ParticipantPage() {
   useEffect(() => {
     if (!participantId || !stateManager) return;
 
-    // Use global socket instance if it exists and is connected
-    if (globalSocket && globalSocket.connected) {
-      safeLog("Using existing global socket connection");
-      setSocket(globalSocket);
+    // Use the global connection if it exists and is connected
+    if (globalConnection && globalConnection.getSocket()?.connected) {
+      safeLog("Using existing global connection");
+      setConnectionManager(globalConnection);
+      setSocket(globalConnection.getSocket());
       return;
     }
 
@@ -407,27 +570,55 @@ export default function ParticipantPage() {
     }
 
     safeLog("Creating new socket connection for participant:", participantId);
-    const newSocket = createSocketConnection();
-    globalSocket = newSocket; // Store in global instance
+    // Each participant ID keeps its own queue, so a new invite starts empty
+    const manager = new ConnectionManager(
+      10,
+      2000,
+      10000,
+      `voting_vote_queue_${participantId}`
+    );
+    const newSocket = createSocketConnection(manager);
+    globalConnection = manager; // Store in global instance
+    setConnectionManager(manager);
     setSocket(newSocket);
 
     return () => {
       safeLog("Cleaning up socket connection");
-      if (newSocket && newSocket.connected) {
-        newSocket.disconnect();
-        globalSocket = null; // Clear global instance
+      manager.disconnect();
+      manager.destroy();
+      if (globalConnection === manager) {
+        globalConnection = null; // Clear global instance
       }
     };
   }, [participantId, stateManager]); // Remove socket from dependencies to prevent infinite loop
 
+  // Connection status, latency and queued ballots for the banner
+  useEffect(() => {
+    if (!connectionManager) return;
+
+    const handleStateChange = (state: ConnectionState) =>
+      setConnectionState({ ...state });
+    setConnectionState(connectionManager.getConnectionState());
+    connectionManager.addConnectionListener(handleStateChange);
+    connectionManager.addVoteStatusListener(setVoteStatus);
+
+    return () => {
+      connectionManager.removeConnectionListener(handleStateChange);
+      connectionManager.removeVoteStatusListener(setVoteStatus);
+    };
+  }, [connectionManager]);
+
   // Handle page visibility changes (tab switching, screen lock)
   useEffect(() => {
     const handleVisibilityChange = () => {
       if (document.visibilityState === "visible") {
-        // Page became visible, check connection status but don't force reconnect
-        if (socket && !isConnected) {
-          safeLog("Page became visible, connection status:", isConnected);
-          // Let Socket.IO handle reconnection naturally
+        // Back from a locked screen: reconnect now rather than wait out the backoff
+        if (socket && !socket.connected) {
+          safeLog("Page became visible, reconnecting");
+          connectionManager?.reconnectNow();
+        } else if (socket?.connected) {
+          // Back from a locked screen: show as online without waiting a beat
+          socket.emit("ping");
         }
       }
     };
@@ -441,11 +632,11 @@ export default function ParticipantPage() {
     };
 
     const handleBeforeUnload = () => {
-      // Clean up global socket on page unload
-      if (globalSocket) {
-        safeLog("Page unloading, cleaning up global socket");
-        globalSocket.disconnect();
-        globalSocket = null;
+      // Clean up global connection on page unload; queued votes stay in storage
+      if (globalConnection) {
+        safeLog("Page unloading, cleaning up global connection");
+        globalConnection.disconnect();
+        globalConnection = null;
       }
     };
 
@@ -458,36 +649,19 @@ export default function ParticipantPage() {
       window.removeEventListener("focus", handleFocus);
       window.removeEventListener("beforeunload", handleBeforeUnload);
     };
-  }, [socket, isConnected]);
+  }, [socket, isConnected, connectionManager]);
 
-  // Timer countdown
+  // Timer countdown, recomputed from the server's endTime on every tick
   useEffect(() => {
-    if (timeLeft > 0 && votingSession?.active) {
-      const timer = setInterval(() => {
-        setTimeLeft((prev) => {
-          if (prev <= 1) {
-            return 0;
-          }
-
-          return prev - 1;
-        });
-      }, 1000);
+    if (!votingSession?.active || !votingSession.endTime) return;
 
-      return () => clearInterval(timer);
-    }
-  }, [timeLeft, votingSession?.active]);
+    const endTime = votingSession.endTime;
+    setTimeLeft(getSecondsLeft(endTime));
+    const timer = setInterval(() => {
+      setTimeLeft(getSecondsLeft(endTime));
+    }, 1000);
 
-  // Preserve timer when voting session updates
-  useEffect(() => {
-    if (votingSession?.active && votingSession.endTime) {
-      const newTimeLeft = Math.max(
-        0,
-        Math.floor((votingSession.endTime - Date.now()) / 1000)
-      );
-      if (newTimeLeft > timeLeft) {
-        setTimeLeft(newTimeLeft);
-      }
-    }
+    return () => clearInterval(timer);
   }, [votingSession?.active, votingSession?.endTime]);
 
   // Periodic status check to ensure we don't miss updates
@@ -506,15 +680,54 @@ export default function ParticipantPage() {
     return () => clearInterval(statusCheck);
   }, [socket, isConnected]);
 
+  const isRankedVoting = votingSession?.votingMode === "ranked";
+  const isApprovalVoting = votingSession?.votingMode === "approval";
+  const maxSelections = votingSession?.maxSelections || DEFAULT_MAX_SELECTIONS;
+
+  // Changing a vote skips the "already voted" check but keeps the others
+  const validateSelection = useCallback(
+    (categoryId: string, option: string) => {
+      if (!stateManager) return { isValid: false };
+      return isChangingVote
+        ? stateManager.validateVoteChange(categoryId, option)
+        : stateManager.validateVoteAttempt(categoryId, option);
+    },
+    [stateManager, isChangingVote]
+  );
+
   const handleVoteSelect = useCallback(
     (option: string) => {
       if (!votingSession?.active || !stateManager) return;
 
+      // Ranked categories build up an ordered list before confirming
+      if (votingSession.votingMode === "ranked") {
+        setVoteValidationError("");
+        setRanking((prev) =>
+          prev.includes(option)
+            ? prev.filter((name) => name !== option)
+            : [...prev, option]
+        );
+        return;
+      }
+
+      // Approval categories toggle picks up to the category's limit
+      if (votingSession.votingMode === "approval") {
+        const limit = votingSession.maxSelections || DEFAULT_MAX_SELECTIONS;
+        if (!approvals.includes(option) && approvals.length >= limit) {
+          setVoteValidationError(`You can pick up to ${limit} nominees`);
+          return;
+        }
+        setVoteValidationError("");
+        setApprovals((prev) =>
+          prev.includes(option)
+            ? prev.filter((name) => name !== option)
+            : [...prev, option]
+        );
+        return;
+      }
+
       // Validate vote attempt using state manager
-      const validation = stateManager.validateVoteAttempt(
-        votingSession.categoryId,
-        option
-      );
+      const validation = validateSelection(votingSession.categoryId, option);
 
       if (!validation.isValid) {
         setVoteValidationError(validation.reason || "Cannot vote at this time");
@@ -525,15 +738,54 @@ export default function ParticipantPage() {
       setPendingVote(option);
       setShowConfirmation(true);
     },
-    [votingSession, stateManager]
+    [votingSession, stateManager, approvals, validateSelection]
   );
 
+  const handleRankingMoveUp = (index: number) => {
+    if (index === 0) return;
+    setRanking((prev) => {
+      const next = [...prev];
+      [next[index - 1], next[index]] = [next[index], next[index - 1]];
+      return next;
+    });
+  };
+
+  // Ranked and approval ballots confirm their whole list of picks at once
+  const handlePicksSubmit = useCallback(() => {
+    const picks = isRankedVoting ? ranking : approvals;
+    if (!votingSession?.active || !stateManager || picks.length === 0)
+      return;
+
+    const validation = validateSelection(votingSession.categoryId, picks[0]);
+
+    if (!validation.isValid) {
+      setVoteValidationError(validation.reason || "Cannot vote at this time");
+      return;
+    }
+
+    setVoteValidationError("");
+    setPendingVote(picks[0]);
+    setShowConfirmation(true);
+  }, [
+    votingSession,
+    stateManager,
+    isRankedVoting,
+    ranking,
+    approvals,
+    validateSelection,
+  ]);
+
   const handleVoteConfirm = useCallback(() => {
-    if (!socket || !votingSession?.active || !pendingVote || !stateManager)
+    if (
+      !connectionManager ||
+      !votingSession?.active ||
+      !pendingVote ||
+      !stateManager
+    )
       return;
 
     // Double-check validation before submitting
-    const validation = stateManager.validateVoteAttempt(
+    const validation = validateSelection(
       votingSession.categoryId,
       pendingVote
     );
@@ -545,20 +797,126 @@ export default function ParticipantPage() {
       return;
     }
 
+    const submittedRanking =
+      votingSession.votingMode === "ranked" ? ranking : undefined;
+    const submittedSelections =
+      votingSession.votingMode === "approval" ? approvals : undefined;
+
+    // Same checks the server runs, so a bad ballot never leaves the phone
+    const ballotError = validateBallot(
+      {
+        categoryId: votingSession.categoryId,
+        option: pendingVote,
+        ranking: submittedRanking,
+        selections: submittedSelections,
+      },
+      votingSession
+    );
+    if (ballotError) {
+      setVoteValidationError(getVoteErrorMessage(ballotError));
+      setShowConfirmation(false);
+      setPendingVote("");
+      return;
+    }
+
+    if (isChangingVote) {
+      // Only first ballots are queued offline; a change needs the live session
+      if (!socket?.connected) {
+        setVoteValidationError(
+          "You're offline. Reconnect to change your vote."
+        );
+        setShowConfirmation(false);
+        setPendingVote("");
+        return;
+      }
+
+      // Local history follows the server's vote-changed, so a rejected
+      // change (category stopped, paused, ...) leaves the counted ballot shown
+      socket.emit("change-vote", {
+        categoryId: votingSession.categoryId,
+        option: pendingVote,
+        ranking: submittedRanking,
+        selections: submittedSelections,
+      });
+
+      setIsChangingVote(false);
+      setShowConfirmation(false);
+      setPendingVote("");
+      setRanking([]);
+      setApprovals([]);
+      setVoteValidationError("");
+      return;
+    }
+
     // Update local state immediately for instant feedback
     // This prevents the voting screen from showing briefly before the socket confirmation
-    stateManager.recordVote(votingSession.categoryId, pendingVote);
+    stateManager.recordVote(votingSession.categoryId, pendingVote, {
+      ranking: submittedRanking,
+      selections: submittedSelections,
+    });
 
-    socket.emit("submit-vote", {
+    // Queued with a vote ID until the server confirms it, so a ballot cast
+    // offline goes out on reconnect and a replay is never counted twice
+    connectionManager.queueVote({
       categoryId: votingSession.categoryId,
       option: pendingVote,
+      ranking: submittedRanking,
+      selections: submittedSelections,
       deviceId: deviceId, // Include device ID to prevent refresh-based duplicate voting
     });
 
     setShowConfirmation(false);
     setPendingVote("");
+    setRanking([]);
+    setApprovals([]);
+    setVoteValidationError("");
+  }, [
+    socket,
+    connectionManager,
+    votingSession,
+    pendingVote,
+    ranking,
+    approvals,
+    stateManager,
+    deviceId,
+    isChangingVote,
+    validateSelection,
+  ]);
+
+  // Reopen the ballot with the current picks while the category is live
+  const handleChangeVoteStart = () => {
+    if (!votingSession?.active || !stateManager) return;
+
+    const categoryId = votingSession.categoryId;
+    setRanking(
+      isRankedVoting ? stateManager.getRankingForCategory(categoryId) || [] : []
+    );
+    setApprovals(
+      isApprovalVoting ? stateManager.getSelectionsForCategory(categoryId) : []
+    );
+    setSearchQuery("");
+    setVoteValidationError("");
+    setIsChangingVote(true);
+  };
+
+  const handleChangeVoteCancel = () => {
+    setIsChangingVote(false);
+    setRanking([]);
+    setApprovals([]);
     setVoteValidationError("");
-  }, [socket, votingSession, pendingVote, stateManager, deviceId]);
+  };
+
+  const handleIdentityClaim = (name: string) => {
+    if (!socket) return;
+    setVoteValidationError("");
+    socket.emit("claim-identity", { name });
+  };
+
+  const handleInviteRetry = () => {
+    if (!socket) return;
+    socket.emit("join-voting", { participantId, inviteToken });
+    socket.emit("request-voting-status");
+  };
 
   const handleVoteCancel = () => {
     setShowConfirmation(false);
@@ -571,13 +929,24 @@ export default function ParticipantPage() {
     return `${mins}:${secs.toString().padStart(2, "0")}`;
   };
 
+  const isFinalCountdown =
+    !!votingSession?.active &&
+    !!votingSession.endTime &&
+    timeLeft > 0 &&
+    timeLeft <= COUNTDOWN_WARNING_SECONDS;
+
+  // Participants never see their own name on the ballot
+  const ballotOptions =
+    votingSession?.options?.filter(
+      (option) => identity.status !== "approved" || option !== identity.name
+    ) || [];
+
   // Filter and sort options based on search query
-  const filteredOptions =
-    votingSession?.options
-      ?.filter((option) =>
-        option.toLowerCase().includes(searchQuery.toLowerCase())
-      )
-      ?.sort((a, b) => a.localeCompare(b)) || [];
+  const filteredOptions = ballotOptions
+    .filter((option) =>
+      option.toLowerCase().includes(searchQuery.toLowerCase())
+    )
+    .sort((a, b) => a.localeCompare(b));
 
   // Determine waiting state with enhanced logic
   const getWaitingState = () => {
@@ -591,13 +960,18 @@ export default function ParticipantPage() {
       return "no-session";
     }
 
-    // 3. User has voted for current category
+    // 3. Admin paused the category - the ballot comes back on resume
+    if (votingSession.active && votingSession.phase === "paused") {
+      return "voting-paused";
+    }
+
+    // 4. User has voted for current category
     const hasVotedForCurrentCategory =
       stateManager?.hasVotedForCategory(votingSession.categoryId) ||
       (voterState.hasVoted && voterState.currentCategoryId === votingSession.categoryId) ||
       voterState.viewState === "voted";
 
-    if (hasVotedForCurrentCategory) {
+    if (hasVotedForCurrentCategory && !(isChangingVote && votingSession.active)) {
       // If user has voted, they're waiting
       if (!votingSession.active) {
         return "between-categories";
@@ -605,31 +979,120 @@ export default function ParticipantPage() {
       return "voted";
     }
 
-    // 4. Voting session exists but not active
+    // 5. Voting session exists but not active
     if (!votingSession.active) {
       return "between-categories";
     }
 
-    // 5. Active voting session - not a waiting state
+    // 6. Active voting session - not a waiting state
     return null;
   };
 
+  // Invite-only events need the voter's own link
+  if (inviteError) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 flex items-center justify-center p-3 sm:p-4">
+        <div className="text-center max-w-sm sm:max-w-md mx-auto w-full">
+          <div className="flex justify-center mb-4 sm:mb-6">
+            <Image
+              src="/assets/gf-logo.svg"
+              alt="GritFeat Logo"
+              width={100}
+              height={40}
+              className="h-8 sm:h-10 w-auto"
+            />
+          </div>
+          <div className="w-16 h-16 sm:w-20 sm:h-20 bg-[#7ebd41]/10 rounded-full flex items-center justify-center mx-auto mb-4 sm:mb-6">
+            <Ticket className="w-8 h-8 sm:w-12 sm:h-12 text-[#7ebd41]" />
+          </div>
+          <h1 className="text-xl sm:text-2xl md:text-3xl font-bold text-[#4c4c4c] mb-2 sm:mb-4 px-2">
+            {inviteError === "invite-revoked"
+              ? "This Invite Was Revoked"
+              : "Invite Needed"}
+          </h1>
+          <p className="text-base sm:text-lg text-gray-600 mb-6 px-2 font-medium">
+            {inviteError === "invite-revoked"
+              ? "This voting link no longer works. Ask the organizer for a new invite."
+              : "Voting needs your personal invite link. Scan the QR code on your invite card to join."}
+          </p>
+          <button
+            onClick={handleInviteRetry}
+            className="px-6 py-3 rounded-xl bg-[#7ebd41] text-white font-semibold touch-manipulation active:scale-[0.98]"
+          >
+            Try Again
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  // Roster events ask who's voting before showing any ballot
+  if (roster.length > 0 && identity.status !== "approved") {
+    return (
+      <IdentityClaim
+        roster={roster}
+        takenNames={takenNames}
+        status={identity.status}
+        claimedName={identity.name}
+        error={voteValidationError}
+        onClaim={handleIdentityClaim}
+      />
+    );
+  }
+
+  const winnerRevealModal = (
+    <WinnerRevealModal
+      isOpen={!!winnerReveal}
+      onClose={() => setWinnerReveal(null)}
+      categoryTitle={winnerReveal?.title || ""}
+      winnerName={winnerReveal?.winner || ""}
+      revealAt={winnerReveal?.revealAt}
+      ownPick={winnerReveal?.ownPick}
+      placeLabel={winnerReveal?.placeLabel}
+    />
+  );
+
+  // Only the live category's ballot is worth reporting on
+  const liveVoteStatus =
+    voteStatus && voteStatus.categoryId === votingSession?.categoryId
+      ? voteStatus
+      : null;
+
+  const connectionBanner = (floating: boolean) =>
+    connectionState && (
+      <ConnectionBanner
+        status={connectionState.status}
+        latency={connectionState.latency}
+        queuedVotes={connectionState.queuedVotes}
+        reconnectAttempts={connectionState.reconnectAttempts}
+        isOnline={connectionState.isOnline}
+        voteStatus={liveVoteStatus?.status}
+        recordedAt={liveVoteStatus?.receipt?.recordedAt}
+        floating={floating}
+        onReconnect={() => connectionManager?.reconnectNow()}
+      />
+    );
+
   const waitingState = getWaitingState();
 
   if (waitingState) {
     return (
-      <WaitingState
-        state={waitingState}
-        participantCount={participantCount}
-        nextCategoryTitle={nextCategoryTitle}
-        connectionStatus={isConnected ? "connected" : "disconnected"}
-        isReconnecting={
-          !isConnected &&
-          socket &&
-          socket.connected === false &&
-          connectionAttempts > 0
-        }
-      />
+      <>
+        {connectionBanner(true)}
+        <WaitingState
+          state={waitingState}
+          participantCount={participantCount}
+          nextCategoryTitle={nextCategoryTitle}
+          connectionStatus={isConnected ? "connected" : "disconnected"}
+          onChangeVote={
+            waitingState === "voted" && votingSession?.active
+              ? handleChangeVoteStart
+              : undefined
+          }
+          isReconnecting={connectionState?.status === "reconnecting"}
+        />
+        {winnerRevealModal}
+      </>
     );
   }
 
@@ -651,6 +1114,11 @@ export default function ParticipantPage() {
 
         {/* Header */}
         <div className="text-center mb-8 animate-slide-up">
+          {votingSession.parentCategoryId && (
+            <div className="inline-block px-3 py-1 mb-3 rounded-full bg-orange-100 text-orange-700 text-xs font-bold uppercase tracking-wider">
+              Tie-Break Runoff
+            </div>
+          )}
           <h1 className="text-3xl font-black text-slate-800 mb-3 tracking-tight">
             {votingSession.title}
           </h1>
@@ -664,42 +1132,38 @@ export default function ParticipantPage() {
                 <Users className="w-4 h-4 text-gritfeat-green" />
                 <span className="font-bold text-slate-700">{participantCount} Voting</span>
               </div>
-              <div className="glass-card px-4 py-2 flex items-center gap-2">
-                <Vote className="w-4 h-4 text-gritfeat-green" />
-                <span className="font-bold text-gritfeat-green">Live Now</span>
-              </div>
+              {votingSession.endTime ? (
+                <div
+                  className={`glass-card px-4 py-2 flex items-center gap-2 ${isFinalCountdown ? "animate-pulse" : ""}`}
+                >
+                  <Clock
+                    className={`w-4 h-4 ${isFinalCountdown ? "text-red-500" : "text-gritfeat-green"}`}
+                  />
+                  <span
+                    className={`font-bold font-mono ${isFinalCountdown ? "text-red-600" : "text-gritfeat-green"}`}
+                  >
+                    {formatTime(timeLeft)}
+                  </span>
+                </div>
+              ) : (
+                <div className="glass-card px-4 py-2 flex items-center gap-2">
+                  <Vote className="w-4 h-4 text-gritfeat-green" />
+                  <span className="font-bold text-gritfeat-green">Live Now</span>
+                </div>
+              )}
             </div>
           )}
-        </div>
 
-        {/* Connection Status */}
-        <div className="flex flex-col sm:flex-row items-center justify-center mt-2 space-y-2 sm:space-y-0 sm:space-x-2">
-          <div
-            className={`flex items-center text-xs px-3 py-1.5 rounded-full transition-colors ${isConnected
-              ? "bg-green-100 text-green-700"
-              : "bg-red-100 text-red-700"
-              }`}
-          >
-            <div
-              className={`w-2 h-2 rounded-full mr-2 ${isConnected ? "bg-green-500" : "bg-red-500"
-                }`}
-            ></div>
-            {isConnected ? "Connected" : "Disconnected"}
-            {!isConnected && connectionAttempts > 0 && (
-              <span className="ml-1">({connectionAttempts})</span>
-            )}
-          </div>
-
-          {!isConnected && (
-            <button
-              onClick={() => socket?.connect()}
-              className="text-xs bg-blue-500 text-white px-3 py-1.5 rounded-full hover:bg-blue-600 transition-colors touch-manipulation active:scale-95"
-            >
-              Reconnect
-            </button>
+          {isFinalCountdown && (
+            <p className="mt-4 text-sm font-bold text-red-600">
+              Last {COUNTDOWN_WARNING_SECONDS} seconds! Submit your vote now.
+            </p>
           )}
         </div>
 
+        {/* Connection Status */}
+        {connectionBanner(false)}
+
         {/* Voting State Info */}
         {stateManager &&
           votingSession &&
@@ -724,12 +1188,101 @@ export default function ParticipantPage() {
       )}
 
       {/* Voting Options */}
-      {votingSession.active && !voterState.hasVoted && (
+      {votingSession.active && (!voterState.hasVoted || isChangingVote) && (
         <div className="space-y-3 sm:space-y-4 mb-6 sm:mb-8 mx-24">
+          {/* Change-vote banner */}
+          {isChangingVote && (
+            <div className="flex items-center justify-between gap-3 bg-blue-50 border border-blue-200 rounded-xl p-3 sm:p-4">
+              <p className="text-sm text-blue-700 font-medium">
+                Changing your vote for {stateManager?.getVoteForCategory(votingSession.categoryId)}
+              </p>
+              <button
+                onClick={handleChangeVoteCancel}
+                className="text-xs font-semibold text-blue-700 px-3 py-1.5 rounded-full bg-white border border-blue-200 hover:bg-blue-100 flex-shrink-0 touch-manipulation"
+              >
+                Keep My Vote
+              </button>
+            </div>
+          )}
+
           <h2 className="text-lg sm:text-xl font-semibold text-[#4c4c4c] text-center mb-4 sm:mb-6 px-2">
-            Choose your vote:
+            {isRankedVoting
+              ? "Rank your picks:"
+              : isApprovalVoting
+                ? `Pick up to ${maxSelections}:`
+                : "Choose your vote:"}
           </h2>
 
+          {/* Approval summary (approval categories only) */}
+          {isApprovalVoting && (
+            <div className="bg-white rounded-xl p-3 sm:p-4 border-2 border-[#7ebd41]/30 shadow-sm">
+              <p className="text-sm text-gray-500 text-center mb-3">
+                {approvals.length} of {maxSelections} picks selected
+              </p>
+              <button
+                onClick={handlePicksSubmit}
+                disabled={approvals.length === 0}
+                className="w-full py-3 bg-[#7ebd41] hover:bg-[#6ba837] text-white rounded-lg font-semibold transition-colors touch-manipulation active:scale-[0.98] disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Submit {approvals.length === 1 ? "Pick" : "Picks"}
+              </button>
+            </div>
+          )}
+
+          {/* Ranking summary (ranked categories only) */}
+          {isRankedVoting && (
+            <div className="bg-white rounded-xl p-3 sm:p-4 border-2 border-[#7ebd41]/30 shadow-sm">
+              {ranking.length === 0 ? (
+                <p className="text-sm text-gray-500 text-center">
+                  Tap nominees in order of preference. Your first tap is your
+                  top choice.
+                </p>
+              ) : (
+                <>
+                  <ol className="space-y-2 mb-3">
+                    {ranking.map((name, index) => (
+                      <li
+                        key={name}
+                        className="flex items-center justify-between bg-[#7ebd41]/5 rounded-lg px-3 py-2"
+                      >
+                        <span className="flex items-center text-sm sm:text-base font-semibold text-[#4c4c4c] break-words">
+                          <span className="w-7 h-7 mr-2 rounded-full bg-[#7ebd41] text-white text-xs font-bold flex items-center justify-center flex-shrink-0">
+                            {index + 1}
+                          </span>
+                          {name}
+                        </span>
+                        <span className="flex items-center gap-1 flex-shrink-0">
+                          {index > 0 && (
+                            <button
+                              onClick={() => handleRankingMoveUp(index)}
+                              className="p-1.5 rounded-full text-gray-500 hover:bg-gray-100 touch-manipulation"
+                              aria-label={`Move ${name} up`}
+                            >
+                              <ChevronUp className="w-4 h-4" />
+                            </button>
+                          )}
+                          <button
+                            onClick={() => handleVoteSelect(name)}
+                            className="p-1.5 rounded-full text-gray-500 hover:bg-gray-100 touch-manipulation"
+                            aria-label={`Remove ${name} from ranking`}
+                          >
+                            <X className="w-4 h-4" />
+                          </button>
+                        </span>
+                      </li>
+                    ))}
+                  </ol>
+                  <button
+                    onClick={handlePicksSubmit}
+                    className="w-full py-3 bg-[#7ebd41] hover:bg-[#6ba837] text-white rounded-lg font-semibold transition-colors touch-manipulation active:scale-[0.98]"
+                  >
+                    Submit Ranking
+                  </button>
+                </>
+              )}
+            </div>
+          )}
+
           {/* Search Input */}
           <div className="relative mb-3 sm:mb-6">
             <label
@@ -753,7 +1306,7 @@ export default function ParticipantPage() {
             <div className="text-sm text-gray-600 text-center px-2 mb-2">
               {filteredOptions.length === 0
                 ? "No matches found"
-                : `${filteredOptions.length} of ${votingSession.options.length} options`}
+                : `${filteredOptions.length} of ${ballotOptions.length} options`}
             </div>
           )}
 
@@ -774,27 +1327,43 @@ export default function ParticipantPage() {
 
           {/* Voting options */}
           <div className="space-y-2 sm:space-y-3">
-            {filteredOptions.map((option, index) => (
-              <button
-                key={index}
-                onClick={() => handleVoteSelect(option)}
-                className="w-full voting-option bg-white rounded-xl p-3 sm:p-4 md:p-6 text-left border-2 border-gray-200 hover:border-[#7ebd41] focus:outline-none focus:ring-2 focus:ring-[#7ebd41] focus:ring-offset-2 transition-colors duration-200 touch-manipulation active:scale-[0.98] active:bg-gray-50"
-              >
-                <div className="flex items-center justify-between">
-                  <span className="text-sm sm:text-base md:text-lg font-semibold text-[#4c4c4c] pr-2 break-words">
-                    {option}
-                  </span>
-                  <div className="w-4 h-4 sm:w-5 sm:h-5 md:w-6 md:h-6 rounded-full border-2 border-gray-300 flex-shrink-0"></div>
-                </div>
-              </button>
-            ))}
+            {filteredOptions.map((option, index) => {
+              const rank = ranking.indexOf(option);
+              const isApproved = approvals.includes(option);
+
+              return (
+                <button
+                  key={index}
+                  onClick={() => handleVoteSelect(option)}
+                  className={`w-full voting-option bg-white rounded-xl p-3 sm:p-4 md:p-6 text-left border-2 hover:border-[#7ebd41] focus:outline-none focus:ring-2 focus:ring-[#7ebd41] focus:ring-offset-2 transition-colors duration-200 touch-manipulation active:scale-[0.98] active:bg-gray-50 ${rank >= 0 || isApproved ? "border-[#7ebd41]" : "border-gray-200"
+                    }`}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm sm:text-base md:text-lg font-semibold text-[#4c4c4c] pr-2 break-words">
+                      {option}
+                    </span>
+                    {rank >= 0 ? (
+                      <div className="w-6 h-6 rounded-full bg-[#7ebd41] text-white text-xs font-bold flex items-center justify-center flex-shrink-0">
+                        {rank + 1}
+                      </div>
+                    ) : isApproved ? (
+                      <div className="w-6 h-6 rounded-full bg-[#7ebd41] text-white flex items-center justify-center flex-shrink-0">
+                        <CheckCircle className="w-4 h-4" />
+                      </div>
+                    ) : (
+                      <div className="w-4 h-4 sm:w-5 sm:h-5 md:w-6 md:h-6 rounded-full border-2 border-gray-300 flex-shrink-0"></div>
+                    )}
+                  </div>
+                </button>
+              );
+            })}
           </div>
 
           {/* Show total options count when not searching */}
-          {!searchQuery && votingSession.options.length > 0 && (
+          {!searchQuery && ballotOptions.length > 0 && (
             <div className="text-center text-xs sm:text-sm text-gray-500 mt-4 px-2">
-              {votingSession.options.length} nominee
-              {votingSession.options.length !== 1 ? "s" : ""} available
+              {ballotOptions.length} nominee
+              {ballotOptions.length !== 1 ? "s" : ""} available
             </div>
           )}
         </div>
@@ -806,9 +1375,13 @@ export default function ParticipantPage() {
         isOpen={showConfirmation}
         nominee={pendingVote}
         categoryTitle={votingSession?.title || ""}
+        ranking={isRankedVoting ? ranking : undefined}
+        selections={isApprovalVoting ? approvals : undefined}
         onConfirm={handleVoteConfirm}
         onCancel={handleVoteCancel}
       />
+
+      {winnerRevealModal}
     </div>
   );
 }
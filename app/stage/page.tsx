@@ -0,0 +1,321 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Trophy, Medal, Sparkles, Clock, Users, Lock, Pause, WifiOff } from "lucide-react";
+import { io } from "socket.io-client";
+import Image from "next/image";
+import QRCode from "qrcode";
+import { StageState, formatTime, formatPlace } from "../../types";
+import { COUNTDOWN_WARNING_SECONDS, SOUNDS } from "../../types/constants";
+import {
+  getServerUrl,
+  getParticipantUrl,
+  initializeServerUrl,
+} from "../utils/getServerUrl";
+import {
+  getSessionSecondsLeft,
+  serverNow,
+  syncServerClock,
+} from "../utils/serverClock";
+
+const playSound = (src: string, volume: number) => {
+  try {
+    const audio = new Audio(src);
+    audio.volume = volume;
+    audio.play().catch(err => console.log("Audio play blocked:", err));
+  } catch (err) {
+    console.error("Audio error:", err);
+  }
+};
+
+// Projector view: read-only, driven entirely from the admin dashboard
+export default function StagePage() {
+  const [stage, setStage] = useState<StageState>({ screen: "idle" });
+  const [isConnected, setIsConnected] = useState<boolean>(false);
+  const [timeLeft, setTimeLeft] = useState<number>(0);
+  const [participantUrl, setParticipantUrl] = useState<string>("");
+  const [qrCodeDataUrl, setQrCodeDataUrl] = useState<string>("");
+  const [isSuspense, setIsSuspense] = useState<boolean>(false);
+
+  // Join QR for the idle splash
+  useEffect(() => {
+    const init = async () => {
+      await initializeServerUrl();
+      const pUrl = getParticipantUrl();
+      setParticipantUrl(pUrl);
+
+      QRCode.toDataURL(pUrl, {
+        width: 480,
+        margin: 2,
+        color: {
+          dark: "#4c4c4c",
+          light: "#FFFFFF",
+        },
+      })
+        .then(setQrCodeDataUrl)
+        .catch(console.error);
+    };
+    init();
+  }, []);
+
+  useEffect(() => {
+    const socket = io(getServerUrl(), {
+      reconnection: true,
+      reconnectionAttempts: Infinity,
+      reconnectionDelay: 2000,
+      reconnectionDelayMax: 10000,
+      timeout: 30000,
+    });
+
+    // Rejoin after every reconnect; the server replies with the current screen
+    socket.on("connect", () => {
+      setIsConnected(true);
+      socket.emit("join-stage");
+    });
+
+    socket.on("disconnect", () => {
+      setIsConnected(false);
+    });
+
+    socket.on("server-time", (serverTime) => {
+      syncServerClock(serverTime);
+    });
+
+    socket.on("stage-update", (state: StageState) => {
+      setStage(state);
+    });
+
+    return () => {
+      socket.disconnect();
+    };
+  }, []);
+
+  // Countdown ticks locally against the server's endTime
+  useEffect(() => {
+    if (stage.screen !== "voting" || !stage.session) {
+      setTimeLeft(0);
+      return;
+    }
+
+    const session = stage.session;
+    setTimeLeft(getSessionSecondsLeft(session));
+    const timer = setInterval(() => {
+      setTimeLeft(getSessionSecondsLeft(session));
+    }, 250);
+
+    return () => clearInterval(timer);
+  }, [stage]);
+
+  // Hold the winner back until the server's reveal time, in step with the phones
+  const revealAt = stage.screen === "reveal" ? stage.result?.revealAt : undefined;
+  useEffect(() => {
+    const delay = revealAt ? revealAt - serverNow() : 0;
+    if (delay <= 0) {
+      setIsSuspense(false);
+      return;
+    }
+
+    setIsSuspense(true);
+    const timer = setTimeout(() => {
+      setIsSuspense(false);
+      playSound(SOUNDS.APPLAUSE, 0.7);
+    }, delay);
+    return () => clearTimeout(timer);
+  }, [revealAt]);
+
+  // Each runner-up step gets its own sting
+  const placing = stage.screen === "runner-up" ? stage.placing : undefined;
+  const placingKey = placing ? `${placing.categoryId}:${placing.position}` : "";
+  useEffect(() => {
+    if (placingKey) playSound(SOUNDS.SUCCESS, 0.6);
+  }, [placingKey]);
+
+  const turnout = stage.turnout;
+  const turnoutPercent =
+    turnout && turnout.total > 0
+      ? Math.min(100, Math.round((turnout.voted / turnout.total) * 100))
+      : 0;
+  const isPaused = stage.session?.phase === "paused";
+  const isFinalCountdown =
+    !isPaused && timeLeft > 0 && timeLeft <= COUNTDOWN_WARNING_SECONDS;
+
+  const turnoutBar = turnout && (
+    <div className="w-full max-w-3xl mx-auto">
+      <div className="flex items-center justify-between text-2xl font-bold text-[#4c4c4c] mb-3">
+        <span className="flex items-center gap-3">
+          <Users className="w-7 h-7 text-[#7ebd41]" /> Turnout
+        </span>
+        <span>
+          {turnout.voted} of {turnout.total} voted
+        </span>
+      </div>
+      <div className="h-5 bg-gray-200 rounded-full overflow-hidden">
+        <div
+          className="h-full bg-[#7ebd41] rounded-full transition-all duration-700"
+          style={{ width: `${turnoutPercent}%` }}
+        />
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 flex flex-col overflow-hidden cursor-none select-none">
+      {/* Connection Lost */}
+      {!isConnected && (
+        <div className="absolute top-6 right-6 z-20 flex items-center gap-2 px-4 py-2 bg-white/80 rounded-full text-sm font-semibold text-gray-500 shadow">
+          <WifiOff className="w-4 h-4" /> Reconnecting...
+        </div>
+      )}
+
+      {stage.screen === "reveal" && stage.result ? (
+        /* Winner Reveal */
+        <div className="flex-1 flex flex-col items-center justify-center text-center px-12 bg-gradient-to-br from-[#7ebd41] to-[#659a35] text-white">
+          <div className="relative mb-10">
+            <div className="absolute inset-0 bg-white blur-3xl opacity-30 rounded-full animate-pulse" />
+            <div className="relative w-40 h-40 bg-white rounded-full flex items-center justify-center shadow-2xl">
+              <Trophy className="w-20 h-20 text-[#7ebd41]" />
+            </div>
+            <Sparkles className="absolute -top-2 -right-4 w-12 h-12 text-white animate-pulse" />
+            <Sparkles className="absolute -bottom-3 -left-5 w-9 h-9 text-white/70 animate-pulse" />
+          </div>
+          <p className="text-2xl font-bold uppercase tracking-[0.3em] text-white/80 mb-4">
+            {isSuspense
+              ? "And the Winner Is"
+              : stage.result.isTie
+                ? "It's a Tie!"
+                : "Winner"}
+          </p>
+          <h2 className="text-4xl font-semibold text-white/90 mb-8">
+            {stage.result.title}
+          </h2>
+          {isSuspense ? (
+            <div className="flex gap-4 py-8" aria-hidden="true">
+              <span className="w-6 h-6 bg-white rounded-full animate-bounce" />
+              <span className="w-6 h-6 bg-white rounded-full animate-bounce [animation-delay:150ms]" />
+              <span className="w-6 h-6 bg-white rounded-full animate-bounce [animation-delay:300ms]" />
+            </div>
+          ) : (
+            <p className="text-7xl lg:text-8xl font-black leading-tight drop-shadow-lg">
+              {Array.isArray(stage.result.winner)
+                ? stage.result.winner.join(" & ")
+                : stage.result.winner}
+            </p>
+          )}
+        </div>
+      ) : placing ? (
+        /* Runner-Up Place */
+        <div className="flex-1 flex flex-col items-center justify-center text-center px-12">
+          <div className="w-36 h-36 bg-white rounded-full flex items-center justify-center shadow-2xl mb-10">
+            <Medal className="w-[4.5rem] h-[4.5rem] text-[#7ebd41]" />
+          </div>
+          <p className="text-2xl font-bold uppercase tracking-[0.3em] text-[#7ebd41] mb-4">
+            {placing.isTie ? "Tied for " : ""}
+            {formatPlace(placing.position)}
+          </p>
+          <h2 className="text-4xl font-semibold text-gray-500 mb-8">
+            {placing.title}
+          </h2>
+          <p className="text-7xl lg:text-8xl font-black leading-tight text-[#4c4c4c] mb-10">
+            {placing.name}
+          </p>
+          <p className="text-2xl text-gray-400">
+            {placing.remaining > 0
+              ? "More places to come..."
+              : "And next... the winner"}
+          </p>
+        </div>
+      ) : stage.screen === "voting" && stage.session ? (
+        /* Active Category */
+        <div className="flex-1 flex flex-col items-center justify-center text-center px-12 gap-12">
+          <div>
+            <div className="inline-block px-6 py-2 rounded-full bg-[#7ebd41] text-white text-lg font-black uppercase tracking-widest mb-8">
+              {isPaused
+                ? "Voting Paused"
+                : stage.session.runoffRound
+                  ? "Tie-Break Runoff"
+                  : "Vote Now"}
+            </div>
+            <h1 className="text-6xl lg:text-7xl font-black text-[#4c4c4c] mb-6">
+              {stage.session.title}
+            </h1>
+            <p className="text-2xl lg:text-3xl text-gray-500 max-w-4xl mx-auto">
+              {stage.session.description}
+            </p>
+          </div>
+
+          <div
+            className={`flex items-center gap-5 px-12 py-6 bg-white rounded-3xl shadow-xl border-2 ${isFinalCountdown ? "border-red-300 animate-pulse" : "border-transparent"}`}
+          >
+            {isPaused ? (
+              <Pause className="w-14 h-14 text-gray-400" />
+            ) : (
+              <Clock className={`w-14 h-14 ${isFinalCountdown ? "text-red-500" : "text-[#7ebd41]"}`} />
+            )}
+            <span
+              className={`text-8xl font-black font-mono tracking-tighter ${isFinalCountdown ? "text-red-500" : "text-[#4c4c4c]"}`}
+            >
+              {formatTime(timeLeft)}
+            </span>
+          </div>
+
+          {turnoutBar}
+        </div>
+      ) : stage.screen === "closed" && stage.session ? (
+        /* Voting Closed */
+        <div className="flex-1 flex flex-col items-center justify-center text-center px-12 gap-10">
+          <div className="w-32 h-32 bg-[#4c4c4c] rounded-full flex items-center justify-center shadow-xl">
+            <Lock className="w-16 h-16 text-white" />
+          </div>
+          <div>
+            <p className="text-2xl font-bold uppercase tracking-[0.3em] text-[#7ebd41] mb-4">
+              Voting Closed
+            </p>
+            <h1 className="text-6xl font-black text-[#4c4c4c] mb-6">
+              {stage.session.title}
+            </h1>
+            <p className="text-3xl text-gray-500">
+              The votes are in. The winner will be revealed shortly...
+            </p>
+          </div>
+          {turnoutBar}
+        </div>
+      ) : (
+        /* Idle Splash */
+        <div className="flex-1 flex flex-col lg:flex-row items-center justify-center gap-16 px-12">
+          <div className="text-center lg:text-left max-w-xl">
+            <Image
+              src="/assets/gf-logo.svg"
+              alt="GritFeat Logo"
+              width={190}
+              height={78}
+              className="h-16 w-auto mb-10 mx-auto lg:mx-0"
+            />
+            <h1 className="text-6xl lg:text-7xl font-black text-[#4c4c4c] mb-6 leading-tight">
+              Scan to <span className="text-[#7ebd41]">vote</span>
+            </h1>
+            <p className="text-2xl text-gray-500 mb-8">
+              Point your phone camera at the code and keep the page open. The
+              next award starts soon.
+            </p>
+            {participantUrl && (
+              <p className="text-xl font-mono text-gray-400 break-all">
+                {participantUrl}
+              </p>
+            )}
+          </div>
+          <div className="bg-white p-6 rounded-3xl shadow-2xl">
+            {qrCodeDataUrl ? (
+              <img
+                src={qrCodeDataUrl}
+                alt="Scan to join the vote"
+                className="w-80 h-80 lg:w-96 lg:h-96"
+              />
+            ) : (
+              <div className="w-80 h-80 lg:w-96 lg:h-96 bg-gray-50 animate-pulse rounded-2xl" />
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
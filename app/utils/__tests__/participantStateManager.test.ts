@@ -146,6 +146,91 @@ describe("ParticipantStateManager", () => {
     expect(history[1].selectedOption).toBe("option2");
   });
 
+  test("should record rankings for ranked categories", () => {
+    const categoryId = "ranked-category";
+    stateManager.handleVotingSessionStart(categoryId);
+
+    stateManager.recordVote(categoryId, "option2", {
+      ranking: ["option2", "option1", "option3"],
+    });
+
+    expect(stateManager.getVoteForCategory(categoryId)).toBe("option2");
+    expect(stateManager.getRankingForCategory(categoryId)).toEqual([
+      "option2",
+      "option1",
+      "option3",
+    ]);
+
+    // Plurality votes have no ranking
+    stateManager.handleVotingSessionStart("plurality-category");
+    stateManager.recordVote("plurality-category", "option1");
+    expect(stateManager.getRankingForCategory("plurality-category")).toBe(
+      null
+    );
+  });
+
+  test("should record every pick for approval categories", () => {
+    const categoryId = "approval-category";
+    stateManager.handleVotingSessionStart(categoryId);
+
+    stateManager.recordVote(categoryId, "option1", {
+      selections: ["option1", "option3"],
+    });
+
+    expect(stateManager.getSelectionsForCategory(categoryId)).toEqual([
+      "option1",
+      "option3",
+    ]);
+    expect(stateManager.getVotingHistory()[0].selections).toEqual([
+      "option1",
+      "option3",
+    ]);
+
+    // Single-pick categories report their one selection
+    stateManager.handleVotingSessionStart("plurality-category");
+    stateManager.recordVote("plurality-category", "option2");
+    expect(
+      stateManager.getSelectionsForCategory("plurality-category")
+    ).toEqual(["option2"]);
+  });
+
+  test("should change a vote without adding history entries", () => {
+    const categoryId = "test-category";
+    stateManager.handleVotingSessionStart(categoryId);
+
+    // Nothing to change before the first vote
+    expect(stateManager.changeVote(categoryId, "option2")).toBe(false);
+    expect(stateManager.validateVoteChange(categoryId, "option2").isValid).toBe(
+      false
+    );
+
+    stateManager.recordVote(categoryId, "option1");
+    expect(stateManager.validateVoteChange(categoryId, "option2").isValid).toBe(
+      true
+    );
+
+    expect(stateManager.changeVote(categoryId, "option2")).toBe(true);
+    expect(stateManager.getVoteForCategory(categoryId)).toBe("option2");
+    expect(stateManager.getVoterState().selectedOption).toBe("option2");
+    expect(stateManager.getVotingHistory()).toHaveLength(1);
+  });
+
+  test("should discard a vote the server rejected", () => {
+    const categoryId = "test-category";
+    stateManager.handleVotingSessionStart(categoryId);
+    stateManager.recordVote(categoryId, "option1");
+
+    expect(stateManager.discardVote(categoryId)).toBe(true);
+    expect(stateManager.hasVotedForCategory(categoryId)).toBe(false);
+    expect(stateManager.getVoterState().viewState).toBe("voting");
+    expect(stateManager.validateVoteAttempt(categoryId, "option2").isValid).toBe(
+      true
+    );
+
+    // Nothing left to discard
+    expect(stateManager.discardVote(categoryId)).toBe(false);
+  });
+
   test("should handle state listeners", () => {
     const listener = jest.fn();
     const unsubscribe = stateManager.subscribe(listener);
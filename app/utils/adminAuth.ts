@@ -0,0 +1,138 @@
+// Admin session: the signed token the backend issues at login, kept in localStorage
+
+import { getServerUrl } from "./getServerUrl";
+
+const TOKEN_KEY = "admin_token";
+const EXPIRES_KEY = "admin_expires_at";
+
+export interface AdminSession {
+  token: string;
+  expiresAt: number;
+}
+
+const sessionEndedListeners = new Set<(message: string) => void>();
+
+/**
+ * Thrown by adminFetch when the backend no longer accepts the session
+ */
+export class AdminAuthError extends Error {
+  constructor(message = "Your admin session has ended. Please log in again.") {
+    super(message);
+    this.name = "AdminAuthError";
+  }
+}
+
+/**
+ * The stored session, or null if there is none or it has expired
+ */
+export function getStoredAdminSession(): AdminSession | null {
+  if (typeof window === "undefined") return null;
+
+  const token = localStorage.getItem(TOKEN_KEY);
+  const expiresAt = parseInt(localStorage.getItem(EXPIRES_KEY) || "", 10);
+  if (!token || !expiresAt || expiresAt <= Date.now()) {
+    clearAdminSession();
+    return null;
+  }
+  return { token, expiresAt };
+}
+
+export function storeAdminSession(session: AdminSession): void {
+  localStorage.setItem(TOKEN_KEY, session.token);
+  localStorage.setItem(EXPIRES_KEY, session.expiresAt.toString());
+}
+
+export function clearAdminSession(): void {
+  if (typeof window === "undefined") return;
+  localStorage.removeItem(TOKEN_KEY);
+  localStorage.removeItem(EXPIRES_KEY);
+}
+
+/**
+ * Subscribe to the backend rejecting the session (expired, signed out elsewhere).
+ * Returns the unsubscribe function
+ */
+export function onAdminSessionEnded(
+  listener: (message: string) => void
+): () => void {
+  sessionEndedListeners.add(listener);
+  return () => {
+    sessionEndedListeners.delete(listener);
+  };
+}
+
+/**
+ * Drop the stored session and tell every subscriber why
+ */
+export function endAdminSession(message: string): void {
+  clearAdminSession();
+  sessionEndedListeners.forEach((listener) => listener(message));
+}
+
+/**
+ * Log in with the admin credentials; throws with the server's message on failure
+ */
+export async function loginAdmin(
+  username: string,
+  password: string
+): Promise<AdminSession> {
+  const response = await fetch(`${getServerUrl()}/api/admin/login`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ username, password }),
+  });
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok || !data.token) {
+    throw new Error(data.error || "Login failed");
+  }
+
+  const session = { token: data.token, expiresAt: data.expiresAt };
+  storeAdminSession(session);
+  return session;
+}
+
+/**
+ * fetch() against the backend with the admin token attached.
+ * A 401 ends the session and throws AdminAuthError
+ */
+export async function adminFetch(
+  path: string,
+  init: RequestInit = {}
+): Promise<Response> {
+  const session = getStoredAdminSession();
+  const headers = new Headers(init.headers);
+  if (session) {
+    headers.set("Authorization", `Bearer ${session.token}`);
+  }
+
+  const response = await fetch(`${getServerUrl()}${path}`, {
+    ...init,
+    headers,
+  });
+
+  if (response.status === 401) {
+    const error = new AdminAuthError();
+    endAdminSession(error.message);
+    throw error;
+  }
+  return response;
+}
+
+/**
+ * Sign the session out on the backend too, so the token stops working everywhere
+ */
+export async function logoutAdmin(): Promise<void> {
+  const session = getStoredAdminSession();
+  clearAdminSession();
+  if (!session) return;
+
+  try {
+    await fetch(`${getServerUrl()}/api/admin/logout`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${session.token}` },
+    });
+  } catch (error) {
+    console.error("Error signing out:", error);
+  }
+}
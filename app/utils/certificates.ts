@@ -0,0 +1,165 @@
+// Winner certificates: A4 landscape SVGs that print straight to PDF
+
+import JSZip from "jszip";
+import { CategoryResult } from "../../types";
+
+const LOGO_URL = "/assets/gf-logo.svg";
+
+// A4 landscape at 96dpi
+const WIDTH = 1123;
+const HEIGHT = 794;
+
+let logoDataUrl: Promise<string> | null = null;
+
+/**
+ * The gf-logo.svg branding as a data URL, so saved certificates are self-contained
+ */
+function getLogoDataUrl(): Promise<string> {
+  if (!logoDataUrl) {
+    logoDataUrl = fetch(LOGO_URL)
+      .then((response) => response.text())
+      .then((svg) => `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`)
+      .catch((error) => {
+        console.error("Error loading certificate logo:", error);
+        logoDataUrl = null;
+        return "";
+      });
+  }
+  return logoDataUrl;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * Break text into lines of at most maxChars (SVG text doesn't wrap on its own)
+ */
+function wrapText(text: string, maxChars: number, maxLines: number): string[] {
+  const lines: string[] = [];
+  let line = "";
+
+  text.split(/\s+/).filter(Boolean).forEach((word) => {
+    if (line && `${line} ${word}`.length > maxChars) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  });
+  if (line) lines.push(line);
+
+  if (lines.length > maxLines) {
+    const kept = lines.slice(0, maxLines);
+    kept[maxLines - 1] = `${kept[maxLines - 1].replace(/[.,;:]?$/, "")}…`;
+    return kept;
+  }
+  return lines;
+}
+
+function getWinners(result: CategoryResult): string[] {
+  return (Array.isArray(result.winner) ? result.winner : [result.winner]).filter(
+    Boolean
+  );
+}
+
+/**
+ * Render the certificate for a revealed category; ties name every joint winner
+ */
+export function renderCertificateSvg(
+  result: CategoryResult,
+  logo: string = ""
+): string {
+  const winners = getWinners(result);
+  const isTie = winners.length > 1;
+  const winnerText = winners.join(" & ");
+  // Shrink long names (and ties) so they stay on one line
+  const winnerFontSize = Math.max(28, Math.min(64, Math.floor(1500 / Math.max(winnerText.length, 1))));
+  const date = new Date(result.revealedAt || Date.now()).toLocaleDateString(
+    undefined,
+    { year: "numeric", month: "long", day: "numeric" }
+  );
+
+  const descriptionLines = wrapText(result.description || "", 80, 3)
+    .map(
+      (line, index) =>
+        `<tspan x="${WIDTH / 2}" dy="${index === 0 ? 0 : 28}">${escapeXml(line)}</tspan>`
+    )
+    .join("");
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" width="297mm" height="210mm" viewBox="0 0 ${WIDTH} ${HEIGHT}" font-family="Helvetica, Arial, sans-serif">
+  <rect width="${WIDTH}" height="${HEIGHT}" fill="#ffffff" />
+  <rect x="24" y="24" width="${WIDTH - 48}" height="${HEIGHT - 48}" fill="none" stroke="#7ebd41" stroke-width="6" rx="24" />
+  <rect x="40" y="40" width="${WIDTH - 80}" height="${HEIGHT - 80}" fill="none" stroke="#7ebd41" stroke-opacity="0.35" stroke-width="2" rx="16" />
+  ${logo ? `<image href="${logo}" x="${WIDTH / 2 - 95}" y="80" width="190" height="78" />` : ""}
+  <text x="${WIDTH / 2}" y="230" text-anchor="middle" font-size="22" font-weight="700" letter-spacing="6" fill="#7ebd41">CERTIFICATE OF ACHIEVEMENT</text>
+  <text x="${WIDTH / 2}" y="300" text-anchor="middle" font-size="20" fill="#6b7280">${isTie ? "Jointly awarded to" : "Proudly awarded to"}</text>
+  <text x="${WIDTH / 2}" y="385" text-anchor="middle" font-size="${winnerFontSize}" font-weight="800" fill="#4c4c4c">${escapeXml(winnerText)}</text>
+  <line x1="${WIDTH / 2 - 220}" y1="420" x2="${WIDTH / 2 + 220}" y2="420" stroke="#7ebd41" stroke-width="3" />
+  <text x="${WIDTH / 2}" y="480" text-anchor="middle" font-size="20" fill="#6b7280">for winning</text>
+  <text x="${WIDTH / 2}" y="530" text-anchor="middle" font-size="38" font-weight="800" fill="#7ebd41">${escapeXml(result.title)}</text>
+  <text x="${WIDTH / 2}" y="580" text-anchor="middle" font-size="20" font-style="italic" fill="#4c4c4c">${descriptionLines}</text>
+  <text x="${WIDTH / 2}" y="705" text-anchor="middle" font-size="18" fill="#9ca3af">${escapeXml(date)}</text>
+</svg>
+`;
+}
+
+/**
+ * File name for a category's certificate, e.g. "certificate-coffee-addict.svg"
+ */
+export function getCertificateFileName(result: CategoryResult): string {
+  const slug = result.title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return `certificate-${slug || result.categoryId}.svg`;
+}
+
+function saveBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 60000);
+}
+
+/**
+ * Download one winner certificate as an SVG
+ */
+export async function downloadCertificate(result: CategoryResult): Promise<void> {
+  const svg = renderCertificateSvg(result, await getLogoDataUrl());
+  saveBlob(
+    new Blob([svg], { type: "image/svg+xml;charset=utf-8" }),
+    getCertificateFileName(result)
+  );
+}
+
+/**
+ * Download every given certificate in a single ZIP
+ */
+export async function downloadCertificatesZip(
+  results: CategoryResult[]
+): Promise<void> {
+  const logo = await getLogoDataUrl();
+  const zip = new JSZip();
+  const usedNames = new Set<string>();
+
+  results.forEach((result) => {
+    let fileName = getCertificateFileName(result);
+    // Two awards with the same title still get a file each
+    if (usedNames.has(fileName)) {
+      fileName = fileName.replace(/\.svg$/, `-${result.categoryId}.svg`);
+    }
+    usedNames.add(fileName);
+    zip.file(fileName, renderCertificateSvg(result, logo));
+  });
+
+  saveBlob(await zip.generateAsync({ type: "blob" }), "certificates.zip");
+}
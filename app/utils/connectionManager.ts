@@ -1,5 +1,12 @@
 // Connection management utility for error handling and recovery
-import { Socket } from "socket.io-client";
+import { io, Socket, ManagerOptions, SocketOptions } from "socket.io-client";
+import { HEARTBEAT_INTERVAL_MS } from "../../types/constants";
+import {
+  VoteAck,
+  VoteError,
+  VoteReceipt,
+  VoteSubmissionStatus,
+} from "../../types";
 
 export type ConnectionStatus =
   | "connected"
@@ -15,13 +22,38 @@ export interface ConnectionState {
   reconnectDelay: number;
   isOnline: boolean;
   latency: number | null;
+  queuedVotes: number; // Ballots not yet confirmed by the server
 }
 
 export interface QueuedVote {
+  voteId: string; // Idempotency key: the server counts a replayed ballot once
   categoryId: string;
   option: string;
+  ranking?: string[];
+  selections?: string[];
+  deviceId?: string;
   timestamp: number;
-  retryCount: number;
+  retryCount: number; // Unanswered sends on the current connection
+  sentAt?: number; // First send, so later sends show as retries
+}
+
+// What the page hears about each ballot: a receipt, a rejection, or still trying
+export interface VoteStatusUpdate {
+  voteId: string;
+  categoryId: string;
+  status: VoteSubmissionStatus;
+  receipt?: VoteReceipt;
+  error?: VoteError;
+}
+
+// How long to wait for submit-vote's acknowledgement before sending again
+const VOTE_ACK_TIMEOUT_MS = 5000;
+
+// Unanswered sends per connection; after that the ballot waits for a reconnect
+const MAX_VOTE_RETRIES = 3;
+
+function createVoteId(): string {
+  return `vote_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
 }
 
 export interface SystemIssue {
@@ -33,6 +65,23 @@ export interface SystemIssue {
   resolved: boolean;
 }
 
+/**
+ * Send the "ping" heartbeat every intervalMs while the socket is connected;
+ * the server keeps the participant "online" while they arrive.
+ * Returns the function that stops it
+ */
+export function startHeartbeat(
+  socket: Socket,
+  intervalMs: number = HEARTBEAT_INTERVAL_MS
+): () => void {
+  const interval = setInterval(() => {
+    if (socket.connected) {
+      socket.emit("ping");
+    }
+  }, intervalMs);
+  return () => clearInterval(interval);
+}
+
 export class ConnectionManager {
   private socket: Socket | null = null;
   private connectionState: ConnectionState;
@@ -40,15 +89,23 @@ export class ConnectionManager {
   private systemIssues: SystemIssue[] = [];
   private listeners: Array<(state: ConnectionState) => void> = [];
   private issueListeners: Array<(issues: SystemIssue[]) => void> = [];
-  private heartbeatInterval: NodeJS.Timeout | null = null;
+  private voteStatusListeners: Array<(update: VoteStatusUpdate) => void> = [];
+  private stopHeartbeatTimer: (() => void) | null = null;
   private reconnectTimeout: NodeJS.Timeout | null = null;
   private latencyCheckInterval: NodeJS.Timeout | null = null;
+  private isReady = false; // Joined the voting room, so ballots can be sent
+
+  // Bound once so destroy() can remove exactly what the constructor added
+  private handleOnline = () => this.handleOnlineStatusChange(true);
+  private handleOffline = () => this.handleOnlineStatusChange(false);
 
   constructor(
     private maxReconnectAttempts: number = 10,
     private baseReconnectDelay: number = 2000,
-    private maxReconnectDelay: number = 10000
+    private maxReconnectDelay: number = 10000,
+    private storageKey: string = "voting_vote_queue"
   ) {
+    this.voteQueue = this.loadVoteQueue();
     this.connectionState = {
       status: "disconnected",
       lastConnected: null,
@@ -57,15 +114,25 @@ export class ConnectionManager {
       reconnectDelay: this.baseReconnectDelay,
       isOnline: navigator.onLine,
       latency: null,
+      queuedVotes: this.voteQueue.length,
     };
 
     // Listen for online/offline events
-    window.addEventListener("online", () =>
-      this.handleOnlineStatusChange(true)
-    );
-    window.addEventListener("offline", () =>
-      this.handleOnlineStatusChange(false)
-    );
+    window.addEventListener("online", this.handleOnline);
+    window.addEventListener("offline", this.handleOffline);
+  }
+
+  /**
+   * Open the socket. The manager does its own reconnecting (with backoff),
+   * so Socket.IO's built-in reconnection is turned off
+   */
+  public connect(
+    url: string,
+    options: Partial<ManagerOptions & SocketOptions> = {}
+  ): Socket {
+    const socket = io(url, { ...options, reconnection: false });
+    this.setSocket(socket);
+    return socket;
   }
 
   public setSocket(socket: Socket): void {
@@ -73,6 +140,10 @@ export class ConnectionManager {
     this.setupSocketListeners();
   }
 
+  public getSocket(): Socket | null {
+    return this.socket;
+  }
+
   private setupSocketListeners(): void {
     if (!this.socket) return;
 
@@ -85,13 +156,14 @@ export class ConnectionManager {
       });
       this.startHeartbeat();
       this.startLatencyCheck();
-      this.retryQueuedVotes();
     });
 
     this.socket.on("disconnect", (reason: string) => {
+      this.isReady = false;
       this.updateConnectionState({
         status: "disconnected",
         isOnline: navigator.onLine,
+        latency: null,
       });
       this.stopHeartbeat();
       this.stopLatencyCheck();
@@ -112,40 +184,7 @@ export class ConnectionManager {
         message: `Connection error: ${error.message}`,
         severity: "medium",
       });
-    });
-
-    this.socket.on("reconnect", (attemptNumber: number) => {
-      this.updateConnectionState({
-        status: "connected",
-        reconnectAttempts: attemptNumber,
-        lastConnected: Date.now(),
-        isOnline: navigator.onLine,
-      });
-      this.retryQueuedVotes();
-    });
-
-    this.socket.on("reconnect_error", (error: Error) => {
-      this.updateConnectionState({
-        status: "reconnecting",
-        isOnline: navigator.onLine,
-      });
-      this.addSystemIssue({
-        type: "connection",
-        message: `Reconnection error: ${error.message}`,
-        severity: "low",
-      });
-    });
-
-    this.socket.on("reconnect_failed", () => {
-      this.updateConnectionState({
-        status: "error",
-        isOnline: navigator.onLine,
-      });
-      this.addSystemIssue({
-        type: "connection",
-        message: "Reconnection failed after all attempts",
-        severity: "high",
-      });
+      this.scheduleReconnection();
     });
   }
 
@@ -158,16 +197,33 @@ export class ConnectionManager {
     this.updateConnectionState({ isOnline });
 
     if (isOnline && this.socket && !this.socket.connected) {
-      // Network came back online, let Socket.IO handle reconnection
+      // Network came back online: try straight away instead of waiting out the backoff
       this.addSystemIssue({
         type: "connection",
         message: "Network connection restored",
         severity: "low",
       });
+      this.reconnectNow();
+    }
+  }
+
+  /**
+   * Skip the backoff and reconnect right away, starting the attempt count over
+   */
+  public reconnectNow(): void {
+    if (!this.socket || this.socket.connected) return;
+
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
     }
+    this.updateConnectionState({ status: "reconnecting", reconnectAttempts: 0 });
+    this.socket.connect();
   }
 
   private scheduleReconnection(): void {
+    if (this.reconnectTimeout) return;
+
     if (this.connectionState.reconnectAttempts >= this.maxReconnectAttempts) {
       this.addSystemIssue({
         type: "connection",
@@ -190,6 +246,7 @@ export class ConnectionManager {
     });
 
     this.reconnectTimeout = setTimeout(() => {
+      this.reconnectTimeout = null;
       if (this.socket && !this.socket.connected) {
         this.socket.connect();
       }
@@ -197,34 +254,36 @@ export class ConnectionManager {
   }
 
   private startHeartbeat(): void {
-    if (this.heartbeatInterval) return;
+    if (this.stopHeartbeatTimer || !this.socket) return;
 
-    this.heartbeatInterval = setInterval(() => {
-      if (this.socket?.connected) {
-        this.socket.emit("ping");
-      }
-    }, 30000); // 30 second heartbeat
+    this.stopHeartbeatTimer = startHeartbeat(this.socket);
   }
 
   private stopHeartbeat(): void {
-    if (this.heartbeatInterval) {
-      clearInterval(this.heartbeatInterval);
-      this.heartbeatInterval = null;
+    if (this.stopHeartbeatTimer) {
+      this.stopHeartbeatTimer();
+      this.stopHeartbeatTimer = null;
+    }
+  }
+
+  private measureLatency(): void {
+    if (this.socket?.connected) {
+      const start = Date.now();
+      this.socket.emit("ping", () => {
+        const latency = Date.now() - start;
+        this.updateConnectionState({ latency });
+      });
     }
   }
 
   private startLatencyCheck(): void {
     if (this.latencyCheckInterval) return;
 
-    this.latencyCheckInterval = setInterval(() => {
-      if (this.socket?.connected) {
-        const start = Date.now();
-        this.socket.emit("ping", () => {
-          const latency = Date.now() - start;
-          this.updateConnectionState({ latency });
-        });
-      }
-    }, 10000); // 10 second latency check
+    this.measureLatency();
+    this.latencyCheckInterval = setInterval(
+      () => this.measureLatency(),
+      10000
+    ); // 10 second latency check
   }
 
   private stopLatencyCheck(): void {
@@ -234,29 +293,127 @@ export class ConnectionManager {
     }
   }
 
-  public queueVote(vote: Omit<QueuedVote, "retryCount">): void {
-    this.voteQueue.push({ ...vote, retryCount: 0 });
+  /**
+   * Queue a ballot under a fresh vote ID and send it if we're connected.
+   * The queue is kept in localStorage until the server's acknowledgement
+   * records or rejects the ballot, so one cast offline (or before a reload)
+   * goes out on reconnect
+   */
+  public queueVote(
+    vote: Omit<QueuedVote, "voteId" | "timestamp" | "retryCount">
+  ): QueuedVote {
+    const queued: QueuedVote = {
+      ...vote,
+      voteId: createVoteId(),
+      timestamp: Date.now(),
+      retryCount: 0,
+    };
+    this.voteQueue.push(queued);
+    this.saveVoteQueue();
+
+    if (this.isReady) {
+      this.sendQueuedVote(queued);
+    }
+    return queued;
+  }
+
+  /**
+   * The page has (re)joined the voting room: replay every unconfirmed ballot
+   */
+  public markReady(): void {
+    this.isReady = true;
+    this.retryQueuedVotes();
+  }
+
+  public getQueuedVotes(): QueuedVote[] {
+    return [...this.voteQueue];
+  }
+
+  private sendQueuedVote(vote: QueuedVote): void {
+    if (!this.socket?.connected) return;
+
+    const { retryCount, timestamp, sentAt, ...ballot } = vote;
+    this.notifyVoteStatus(vote, sentAt ? "retrying" : "sending");
+    vote.retryCount = retryCount + 1;
+    vote.sentAt = sentAt || Date.now();
+    this.saveVoteQueue();
+
+    this.socket
+      .timeout(VOTE_ACK_TIMEOUT_MS)
+      .emit("submit-vote", ballot, (err: Error | null, response?: VoteAck) => {
+        // An earlier send of the same ballot may have been answered already
+        if (!this.voteQueue.includes(vote)) return;
+
+        if (err || !response) {
+          this.handleUnansweredVote(vote);
+          return;
+        }
+
+        this.removeQueuedVote(vote.voteId);
+        if (response.status === "recorded") {
+          this.notifyVoteStatus(vote, "recorded", { receipt: response.receipt });
+        } else {
+          this.notifyVoteStatus(vote, "rejected", { error: response.error });
+        }
+      });
+  }
+
+  // No acknowledgement: the ballot may or may not have been recorded, so it
+  // goes again with the same vote ID and the server sorts out duplicates
+  private handleUnansweredVote(vote: QueuedVote): void {
+    this.notifyVoteStatus(vote, "retrying");
+
+    if (vote.retryCount < MAX_VOTE_RETRIES) {
+      this.sendQueuedVote(vote);
+    } else {
+      this.addSystemIssue({
+        type: "timeout",
+        message: `No answer for the vote in ${vote.categoryId}; it will be sent again on reconnect`,
+        severity: "medium",
+      });
+    }
   }
 
   private retryQueuedVotes(): void {
     if (!this.socket?.connected || this.voteQueue.length === 0) return;
 
-    const votesToRetry = [...this.voteQueue];
-    this.voteQueue = [];
+    [...this.voteQueue].forEach((vote) => {
+      vote.retryCount = 0;
+      this.sendQueuedVote(vote);
+    });
+  }
+
+  private removeQueuedVote(voteId: string): void {
+    const remaining = this.voteQueue.filter((vote) => vote.voteId !== voteId);
+    if (remaining.length === this.voteQueue.length) return;
+
+    this.voteQueue = remaining;
+    this.saveVoteQueue();
+  }
+
+  private loadVoteQueue(): QueuedVote[] {
+    try {
+      const stored = JSON.parse(localStorage.getItem(this.storageKey) || "[]");
+      return Array.isArray(stored) ? stored : [];
+    } catch (error) {
+      console.warn("Failed to load queued votes:", error);
+      return [];
+    }
+  }
 
-    votesToRetry.forEach((vote) => {
-      if (vote.retryCount < 3) {
-        // Re-queue with incremented retry count
-        this.voteQueue.push({ ...vote, retryCount: vote.retryCount + 1 });
+  private saveVoteQueue(): void {
+    try {
+      if (this.voteQueue.length > 0) {
+        localStorage.setItem(this.storageKey, JSON.stringify(this.voteQueue));
       } else {
-        // Max retries reached, log as system issue
-        this.addSystemIssue({
-          type: "vote_failure",
-          message: `Failed to submit vote for ${vote.categoryId} after 3 attempts`,
-          severity: "medium",
-        });
+        localStorage.removeItem(this.storageKey);
       }
-    });
+    } catch (error) {
+      console.warn("Failed to save queued votes:", error);
+    }
+    if (this.connectionState) {
+      this.updateConnectionState({ queuedVotes: this.voteQueue.length });
+    }
   }
 
   private addSystemIssue(
@@ -304,6 +461,35 @@ export class ConnectionManager {
     }
   }
 
+  public addVoteStatusListener(
+    listener: (update: VoteStatusUpdate) => void
+  ): void {
+    this.voteStatusListeners.push(listener);
+  }
+
+  public removeVoteStatusListener(
+    listener: (update: VoteStatusUpdate) => void
+  ): void {
+    const index = this.voteStatusListeners.indexOf(listener);
+    if (index > -1) {
+      this.voteStatusListeners.splice(index, 1);
+    }
+  }
+
+  private notifyVoteStatus(
+    vote: QueuedVote,
+    status: VoteSubmissionStatus,
+    details: Pick<VoteStatusUpdate, "receipt" | "error"> = {}
+  ): void {
+    const update = {
+      voteId: vote.voteId,
+      categoryId: vote.categoryId,
+      status,
+      ...details,
+    };
+    this.voteStatusListeners.forEach((listener) => listener(update));
+  }
+
   public addIssueListener(listener: (issues: SystemIssue[]) => void): void {
     this.issueListeners.push(listener);
   }
@@ -332,6 +518,7 @@ export class ConnectionManager {
   }
 
   public cleanup(): void {
+    this.isReady = false;
     this.stopHeartbeat();
     this.stopLatencyCheck();
 
@@ -349,10 +536,12 @@ export class ConnectionManager {
   }
 
   public destroy(): void {
+    window.removeEventListener("online", this.handleOnline);
+    window.removeEventListener("offline", this.handleOffline);
     this.cleanup();
     this.listeners = [];
     this.issueListeners = [];
-    this.voteQueue = [];
+    this.voteStatusListeners = [];
     this.systemIssues = [];
     this.socket = null;
   }
@@ -0,0 +1,84 @@
+// Voter invite cards: one QR code per roster member, printed from a new tab
+
+import QRCode from "qrcode";
+import { VoterInvite } from "../../types";
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * The participant link carrying an invite token
+ */
+export function getInviteUrl(participantUrl: string, token: string): string {
+  const url = new URL(participantUrl);
+  url.searchParams.set("invite", token);
+  return url.toString();
+}
+
+/**
+ * Printable page of invite cards, each with the voter's name and their QR code
+ */
+export async function renderInviteCardsHtml(
+  invites: VoterInvite[],
+  participantUrl: string
+): Promise<string> {
+  const cards = await Promise.all(
+    invites.map(async (invite) => {
+      const url = getInviteUrl(participantUrl, invite.token);
+      const qr = await QRCode.toDataURL(url, {
+        width: 240,
+        margin: 1,
+        color: { dark: "#4c4c4c", light: "#FFFFFF" },
+      });
+      return `<div class="card">
+  <p class="label">Your personal voting link</p>
+  <h2>${escapeHtml(invite.name)}</h2>
+  <img src="${qr}" alt="Invite QR code for ${escapeHtml(invite.name)}" />
+  <p class="url">${escapeHtml(url)}</p>
+  <p class="note">Only for you &mdash; please don't share it.</p>
+</div>`;
+    })
+  );
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<title>Voter Invites</title>
+<style>
+  body { font-family: system-ui, sans-serif; color: #4c4c4c; margin: 0; padding: 24px; }
+  .grid { display: grid; grid-template-columns: repeat(2, 1fr); gap: 16px; }
+  .card { border: 2px dashed #7ebd41; border-radius: 16px; padding: 20px; text-align: center; break-inside: avoid; }
+  .label { font-size: 11px; font-weight: 800; letter-spacing: 0.1em; text-transform: uppercase; color: #7ebd41; margin: 0; }
+  h2 { margin: 8px 0 12px; font-size: 22px; }
+  img { width: 180px; height: 180px; }
+  .url { font-family: monospace; font-size: 10px; word-break: break-all; margin: 8px 0 4px; }
+  .note { font-size: 12px; margin: 0; }
+</style>
+</head>
+<body>
+<div class="grid">
+${cards.join("\n")}
+</div>
+</body>
+</html>`;
+}
+
+/**
+ * Open the invite cards in a new tab, ready to print
+ */
+export async function openInviteCards(
+  invites: VoterInvite[],
+  participantUrl: string
+): Promise<void> {
+  const html = await renderInviteCardsHtml(invites, participantUrl);
+  const url = URL.createObjectURL(new Blob([html], { type: "text/html" }));
+  window.open(url, "_blank");
+  setTimeout(() => URL.revokeObjectURL(url), 60000);
+}
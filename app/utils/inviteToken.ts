@@ -0,0 +1,25 @@
+/**
+ * Voter invite token from the participant link (?invite=...).
+ * Kept in localStorage so a refresh without the query string still votes with it.
+ * A rejected token stays stored too: scanning a new link replaces it, and the
+ * change is what gives the new voter a fresh participant ID
+ */
+const storageKey = 'voting_invite_token';
+
+export function getInviteToken(): string {
+    const fromUrl = new URLSearchParams(window.location.search).get('invite');
+
+    if (fromUrl) {
+        localStorage.setItem(storageKey, fromUrl);
+        return fromUrl;
+    }
+
+    return localStorage.getItem(storageKey) || '';
+}
+
+/**
+ * The token this device voted with before, if any
+ */
+export function getStoredInviteToken(): string {
+    return localStorage.getItem(storageKey) || '';
+}
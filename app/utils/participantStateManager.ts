@@ -4,15 +4,19 @@ import { VoterState } from "../../types";
 const STORAGE_KEY = "voting_participant_state";
 const STORAGE_VERSION = "1.0";
 
+export interface VoteHistoryEntry {
+  categoryId: string;
+  selectedOption: string;
+  ranking?: string[]; // Full preference order for ranked categories
+  selections?: string[]; // Every approved nominee for approval categories
+  timestamp: number;
+}
+
 export interface PersistedParticipantState {
   version: string;
   participantId: string;
   voterState: VoterState;
-  votingHistory: Array<{
-    categoryId: string;
-    selectedOption: string;
-    timestamp: number;
-  }>;
+  votingHistory: VoteHistoryEntry[];
   lastUpdated: number;
 }
 
@@ -117,10 +121,37 @@ export class ParticipantStateManager {
     return vote ? vote.selectedOption : null;
   }
 
+  /**
+   * Get the submitted ranking for a ranked category
+   */
+  getRankingForCategory(categoryId: string): string[] | null {
+    const vote = this.state.votingHistory.find(
+      (vote) => vote.categoryId === categoryId
+    );
+    return vote && vote.ranking ? [...vote.ranking] : null;
+  }
+
+  /**
+   * Get every nominee picked for a category (one entry unless approval voting)
+   */
+  getSelectionsForCategory(categoryId: string): string[] {
+    const vote = this.state.votingHistory.find(
+      (vote) => vote.categoryId === categoryId
+    );
+    if (!vote) return [];
+    return vote.selections ? [...vote.selections] : [vote.selectedOption];
+  }
+
   /**
    * Record a vote for a category
    */
-  recordVote(categoryId: string, selectedOption: string): boolean {
+  recordVote(
+    categoryId: string,
+    selectedOption: string,
+    ballot: { ranking?: string[]; selections?: string[] } = {}
+  ): boolean {
+    const { ranking, selections } = ballot;
+
     // Prevent duplicate votes for the same category
     if (this.hasVotedForCategory(categoryId)) {
       console.warn(`Already voted for category ${categoryId}`);
@@ -131,6 +162,10 @@ export class ParticipantStateManager {
     this.state.votingHistory.push({
       categoryId,
       selectedOption,
+      ...(ranking && ranking.length > 0 ? { ranking: [...ranking] } : {}),
+      ...(selections && selections.length > 0
+        ? { selections: [...selections] }
+        : {}),
       timestamp: Date.now(),
     });
 
@@ -145,6 +180,70 @@ export class ParticipantStateManager {
     return true;
   }
 
+  /**
+   * Replace the recorded vote for a category that is still open
+   */
+  changeVote(
+    categoryId: string,
+    selectedOption: string,
+    ballot: { ranking?: string[]; selections?: string[] } = {}
+  ): boolean {
+    const { ranking, selections } = ballot;
+    const index = this.state.votingHistory.findIndex(
+      (vote) => vote.categoryId === categoryId
+    );
+
+    if (index === -1) {
+      console.warn(`No vote to change for category ${categoryId}`);
+      return false;
+    }
+
+    this.state.votingHistory[index] = {
+      categoryId,
+      selectedOption,
+      ...(ranking && ranking.length > 0 ? { ranking: [...ranking] } : {}),
+      ...(selections && selections.length > 0
+        ? { selections: [...selections] }
+        : {}),
+      timestamp: Date.now(),
+    };
+
+    if (this.state.voterState.currentCategoryId === categoryId) {
+      this.updateVoterState({ selectedOption });
+    } else {
+      this.saveState();
+      this.notifyListeners();
+    }
+
+    return true;
+  }
+
+  /**
+   * Forget a vote the server refused to count, so the participant can vote again
+   */
+  discardVote(categoryId: string): boolean {
+    const index = this.state.votingHistory.findIndex(
+      (vote) => vote.categoryId === categoryId
+    );
+
+    if (index === -1) return false;
+
+    this.state.votingHistory.splice(index, 1);
+
+    if (this.state.voterState.currentCategoryId === categoryId) {
+      this.updateVoterState({
+        hasVoted: false,
+        selectedOption: null,
+        viewState: "voting",
+      });
+    } else {
+      this.saveState();
+      this.notifyListeners();
+    }
+
+    return true;
+  }
+
   /**
    * Handle new voting session start
    */
@@ -232,14 +331,45 @@ export class ParticipantStateManager {
     return { isValid: true };
   }
 
+  /**
+   * Validate an attempt to change an existing vote
+   */
+  validateVoteChange(
+    categoryId: string,
+    option: string
+  ): {
+    isValid: boolean;
+    reason?: string;
+  } {
+    if (!this.hasVotedForCategory(categoryId)) {
+      return {
+        isValid: false,
+        reason: "No vote to change for this category",
+      };
+    }
+
+    const currentState = this.getVoterState();
+    if (currentState.currentCategoryId !== categoryId) {
+      return {
+        isValid: false,
+        reason: "Category mismatch",
+      };
+    }
+
+    if (!option || option.trim() === "") {
+      return {
+        isValid: false,
+        reason: "No option selected",
+      };
+    }
+
+    return { isValid: true };
+  }
+
   /**
    * Get voting history
    */
-  getVotingHistory(): Array<{
-    categoryId: string;
-    selectedOption: string;
-    timestamp: number;
-  }> {
+  getVotingHistory(): VoteHistoryEntry[] {
     return [...this.state.votingHistory];
   }
 
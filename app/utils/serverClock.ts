@@ -0,0 +1,44 @@
+// Server clock sync so every screen counts down to the same session endTime
+
+// Milliseconds to add to the local clock to match the server
+let serverClockOffset = 0;
+
+/**
+ * Record the server's current time (sent on connect as "server-time")
+ */
+export function syncServerClock(serverTime: number): void {
+  if (typeof serverTime !== "number") return;
+  serverClockOffset = serverTime - Date.now();
+}
+
+/**
+ * Current time on the server clock
+ */
+export function serverNow(): number {
+  return Date.now() + serverClockOffset;
+}
+
+/**
+ * Whole seconds left until a server-side endTime (0 once it has passed)
+ */
+export function getSecondsLeft(endTime: number | null | undefined): number {
+  if (!endTime) return 0;
+  return Math.max(0, Math.ceil((endTime - serverNow()) / 1000));
+}
+
+/**
+ * Seconds left on a session's countdown, frozen at the remaining time while paused
+ */
+export function getSessionSecondsLeft(
+  session: {
+    phase?: string;
+    endTime?: number | null;
+    remainingTime?: number;
+  } | null
+): number {
+  if (!session) return 0;
+  if (session.phase === "paused") {
+    return Math.ceil((session.remainingTime || 0) / 1000);
+  }
+  return getSecondsLeft(session.endTime);
+}
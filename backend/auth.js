@@ -0,0 +1,62 @@
+const crypto = require("crypto");
+
+// Admin credentials and sessions. The password is only ever stored as an
+// scrypt hash: "scrypt$<salt hex>$<hash hex>", made with hash-password.js
+const HASH_SCHEME = "scrypt";
+const KEY_LENGTH = 64;
+
+function hashPassword(password, salt = crypto.randomBytes(16)) {
+  const hash = crypto.scryptSync(String(password), salt, KEY_LENGTH);
+  return `${HASH_SCHEME}$${salt.toString("hex")}$${hash.toString("hex")}`;
+}
+
+function verifyPassword(password, storedHash) {
+  const [scheme, saltHex, hashHex] = String(storedHash || "").split("$");
+  if (scheme !== HASH_SCHEME || !saltHex || !hashHex) return false;
+
+  const expected = Buffer.from(hashHex, "hex");
+  const actual = crypto.scryptSync(
+    String(password),
+    Buffer.from(saltHex, "hex"),
+    expected.length
+  );
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
+
+function sign(payload, secret) {
+  return crypto.createHmac("sha256", secret).update(payload).digest("base64url");
+}
+
+// Signed session token: base64url JSON payload, a dot, then its HMAC
+function createSessionToken(session, secret) {
+  const payload = Buffer.from(JSON.stringify(session)).toString("base64url");
+  return `${payload}.${sign(payload, secret)}`;
+}
+
+// The session inside a token, or null if the signature is wrong or it has expired
+function readSessionToken(token, secret, now = Date.now()) {
+  if (typeof token !== "string") return null;
+
+  const [payload, signature] = token.split(".");
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(sign(payload, secret));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+    return null;
+  }
+
+  try {
+    const session = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+    return session && session.expiresAt > now ? session : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+module.exports = {
+  hashPassword,
+  verifyPassword,
+  createSessionToken,
+  readSessionToken,
+};
@@ -0,0 +1,129 @@
+// Ballot rules and rejection codes. The backend checks every submit-vote and
+// change-vote with these, and the participant page imports the same file
+// (through types/utils.ts) to check a ballot before sending it
+
+// Default number of nominees a participant may approve
+const DEFAULT_MAX_SELECTIONS = 3;
+
+// What participants see for each rejected ballot ("too-many-selections" names the limit)
+const VOTE_ERROR_MESSAGES = {
+  "invalid-ballot": "Something went wrong with your ballot. Please try again",
+  "no-active-session": "Voting isn't open right now",
+  "voting-paused": "Voting is paused. Hold on, the host will resume it shortly",
+  "unknown-category": "Voting has closed for this category",
+  "unknown-option": "That nominee is not eligible for this category",
+  "invalid-ranking": "Please rank at least one nominee",
+  "invalid-selections": "Please pick at least one nominee",
+  "too-many-selections": "You picked more nominees than this category allows",
+  "identity-required": "Please confirm who you are before voting",
+  "self-vote": "You can't vote for yourself",
+  "device-required": "Device identification required",
+  "already-voted": "You have already voted for this category",
+  "device-already-voted": "This device has already voted for this category",
+  "not-voted-yet": "You haven't voted in this category yet",
+  "invite-required": "Voting needs your personal invite link",
+};
+
+// Why a ballot can't be counted, as sent back to the participant
+function voteError(code, maxSelections) {
+  return {
+    code,
+    message: VOTE_ERROR_MESSAGES[code],
+    ...(maxSelections ? { maxSelections } : {}),
+  };
+}
+
+function isStringList(value) {
+  return Array.isArray(value) && value.every((item) => typeof item === "string");
+}
+
+function validateVote(nominee, options) {
+  return nominee.trim() !== "" && options.includes(nominee);
+}
+
+function validateRanking(ranking, options) {
+  return (
+    Array.isArray(ranking) &&
+    ranking.length > 0 &&
+    new Set(ranking).size === ranking.length &&
+    ranking.every((nominee) => validateVote(nominee, options))
+  );
+}
+
+function validateSelections(selections, options, maxSelections) {
+  return (
+    Array.isArray(selections) &&
+    selections.length > 0 &&
+    selections.length <= maxSelections &&
+    new Set(selections).size === selections.length &&
+    selections.every((nominee) => validateVote(nominee, options))
+  );
+}
+
+function validateCategoryId(categoryId, categories) {
+  return categories.some((category) => category.id === categoryId);
+}
+
+// Payload, category and nominee checks for submit-vote and change-vote
+// against the open session; null when the ballot is acceptable
+function validateBallot(ballot, session) {
+  if (
+    !ballot ||
+    typeof ballot !== "object" ||
+    typeof ballot.categoryId !== "string" ||
+    typeof ballot.option !== "string" ||
+    (ballot.ranking != null && !isStringList(ballot.ranking)) ||
+    (ballot.selections != null && !isStringList(ballot.selections))
+  ) {
+    return voteError("invalid-ballot");
+  }
+
+  if (!session) return voteError("no-active-session");
+
+  // Only the session's category is open for votes
+  if (!validateCategoryId(ballot.categoryId, [{ id: session.categoryId }])) {
+    return voteError("unknown-category");
+  }
+
+  // Every pick must come from the category's nominee shortlist
+  const { option, ranking, selections } = ballot;
+  const picks = [option, ...(ranking || []), ...(selections || [])];
+  if (!picks.every((nominee) => validateVote(nominee, session.options))) {
+    return voteError("unknown-option");
+  }
+
+  // Ranked ballots list distinct nominees, with the first choice as option
+  if (
+    session.votingMode === "ranked" &&
+    (!validateRanking(ranking, session.options) || ranking[0] !== option)
+  ) {
+    return voteError("invalid-ranking");
+  }
+
+  // Approval ballots pick up to maxSelections distinct nominees
+  if (session.votingMode === "approval") {
+    const maxSelections = session.maxSelections || DEFAULT_MAX_SELECTIONS;
+    if (
+      !validateSelections(selections, session.options, Infinity) ||
+      selections[0] !== option
+    ) {
+      return voteError("invalid-selections");
+    }
+    if (selections.length > maxSelections) {
+      return voteError("too-many-selections", maxSelections);
+    }
+  }
+
+  return null;
+}
+
+module.exports = {
+  DEFAULT_MAX_SELECTIONS,
+  VOTE_ERROR_MESSAGES,
+  voteError,
+  validateVote,
+  validateRanking,
+  validateSelections,
+  validateCategoryId,
+  validateBallot,
+};
@@ -0,0 +1,12 @@
+// Print the ADMIN_PASSWORD_HASH value for a password:
+//   node hash-password.js "my admin password"
+const { hashPassword } = require("./auth");
+
+const password = process.argv[2];
+
+if (!password) {
+  console.error('Usage: node hash-password.js "<password>"');
+  process.exit(1);
+}
+
+console.log(hashPassword(password));
@@ -0,0 +1,118 @@
+const fs = require("fs");
+const path = require("path");
+
+// Migration files are named NNN_description.js and applied in version order
+const MIGRATIONS_DIR = path.join(__dirname, "migrations");
+const MIGRATION_FILE_PATTERN = /^(\d+)_([\w-]+)\.js$/;
+
+function run(db, sql, params = []) {
+  return new Promise((resolve, reject) => {
+    db.run(sql, params, (err) => {
+      if (err) reject(err);
+      else resolve();
+    });
+  });
+}
+
+function all(db, sql, params = []) {
+  return new Promise((resolve, reject) => {
+    db.all(sql, params, (err, rows) => {
+      if (err) reject(err);
+      else resolve(rows);
+    });
+  });
+}
+
+// Every migration on disk, lowest version first
+function loadMigrations() {
+  return fs
+    .readdirSync(MIGRATIONS_DIR)
+    .map((file) => {
+      const match = file.match(MIGRATION_FILE_PATTERN);
+      if (!match) return null;
+
+      const migration = require(path.join(MIGRATIONS_DIR, file));
+      return {
+        version: parseInt(match[1], 10),
+        name: match[2],
+        description: migration.description || match[2],
+        up: migration.up,
+      };
+    })
+    .filter(Boolean)
+    .sort((a, b) => a.version - b.version);
+}
+
+async function ensureSchemaVersionTable(db) {
+  await run(
+    db,
+    `CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      description TEXT,
+      applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )`
+  );
+}
+
+// Apply pending migrations one at a time, each inside its own transaction
+async function runMigrations(db) {
+  await ensureSchemaVersionTable(db);
+
+  const appliedRows = await all(db, `SELECT version FROM schema_version`);
+  const applied = new Set(appliedRows.map((row) => row.version));
+  const helpers = {
+    run: (sql, params) => run(db, sql, params),
+    all: (sql, params) => all(db, sql, params),
+  };
+
+  for (const migration of loadMigrations()) {
+    if (applied.has(migration.version)) continue;
+
+    console.log(
+      `Applying migration ${migration.version}: ${migration.description}`
+    );
+    await run(db, "BEGIN TRANSACTION");
+    try {
+      await migration.up(helpers);
+      await run(
+        db,
+        `INSERT INTO schema_version (version, name, description) VALUES (?, ?, ?)`,
+        [migration.version, migration.name, migration.description]
+      );
+      await run(db, "COMMIT");
+    } catch (err) {
+      await run(db, "ROLLBACK");
+      throw new Error(
+        `Migration ${migration.version} (${migration.name}) failed: ${err.message}`
+      );
+    }
+  }
+}
+
+// Applied and pending versions for the schema status endpoint
+async function getSchemaStatus(db) {
+  await ensureSchemaVersionTable(db);
+
+  const appliedRows = await all(
+    db,
+    `SELECT version, name, description, applied_at FROM schema_version ORDER BY version`
+  );
+  const appliedVersions = new Set(appliedRows.map((row) => row.version));
+
+  return {
+    currentVersion:
+      appliedRows.length > 0 ? appliedRows[appliedRows.length - 1].version : 0,
+    applied: appliedRows.map((row) => ({
+      version: row.version,
+      name: row.name,
+      description: row.description,
+      appliedAt: row.applied_at,
+    })),
+    pending: loadMigrations()
+      .filter((migration) => !appliedVersions.has(migration.version))
+      .map(({ version, name, description }) => ({ version, name, description })),
+  };
+}
+
+module.exports = { runMigrations, getSchemaStatus };
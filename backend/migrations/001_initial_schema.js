@@ -0,0 +1,33 @@
+// Tables that existed before versioned migrations. Older databases already
+// have them, so every statement must be safe to run against those too.
+// An existing categories table is left as it was; 008 adds its missing columns.
+module.exports = {
+  description: "Create categories, votes and participants tables",
+  async up({ run }) {
+    await run(`CREATE TABLE IF NOT EXISTS categories (
+      id TEXT PRIMARY KEY,
+      title TEXT NOT NULL,
+      description TEXT,
+      options TEXT,
+      voting_mode TEXT DEFAULT 'plurality',
+      max_selections INTEGER,
+      active BOOLEAN DEFAULT 0,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )`);
+
+    await run(`CREATE TABLE IF NOT EXISTS votes (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      category_id TEXT,
+      option TEXT NOT NULL,
+      participant_id TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (category_id) REFERENCES categories (id)
+    )`);
+
+    await run(`CREATE TABLE IF NOT EXISTS participants (
+      id TEXT PRIMARY KEY,
+      name TEXT,
+      joined_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )`);
+  },
+};
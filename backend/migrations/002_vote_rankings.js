@@ -0,0 +1,10 @@
+// Ranked ballots keep the full preference order alongside the first choice
+module.exports = {
+  description: "Add ranking column to votes",
+  async up({ run, all }) {
+    const columns = await all(`PRAGMA table_info(votes)`);
+    if (columns.some((column) => column.name === "ranking")) return;
+
+    await run(`ALTER TABLE votes ADD COLUMN ranking TEXT`);
+  },
+};
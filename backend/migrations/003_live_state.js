@@ -0,0 +1,24 @@
+// Live event state that must survive a backend restart
+module.exports = {
+  description: "Create live_state and vote_keys tables",
+  async up({ run }) {
+    // Snapshots of in-memory event state (category statuses, the live session)
+    await run(`CREATE TABLE IF NOT EXISTS live_state (
+      key TEXT PRIMARY KEY,
+      value TEXT,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )`);
+
+    // One row per participant ballot so duplicate-vote checks survive restarts
+    await run(`CREATE TABLE IF NOT EXISTS vote_keys (
+      category_id TEXT NOT NULL,
+      participant_id TEXT NOT NULL,
+      device_id TEXT,
+      option TEXT,
+      ranking TEXT,
+      selections TEXT,
+      timestamp INTEGER,
+      PRIMARY KEY (category_id, participant_id)
+    )`);
+  },
+};
@@ -0,0 +1,10 @@
+// Admin-controlled category order for the category editor
+module.exports = {
+  description: "Add sort_order to categories",
+  async up({ run }) {
+    await run(`ALTER TABLE categories ADD COLUMN sort_order INTEGER`);
+
+    // Existing events keep the order their categories were inserted in
+    await run(`UPDATE categories SET sort_order = rowid`);
+  },
+};
@@ -0,0 +1,19 @@
+// Single-use voter invites: one token per roster member, enforced per category
+module.exports = {
+  description: "Create invites table and add invite_token to vote_keys",
+  async up({ run, all }) {
+    await run(`CREATE TABLE IF NOT EXISTS invites (
+      token TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'unused',
+      created_at INTEGER,
+      used_at INTEGER,
+      revoked_at INTEGER
+    )`);
+
+    const columns = await all(`PRAGMA table_info(vote_keys)`);
+    if (columns.some((column) => column.name === "invite_token")) return;
+
+    await run(`ALTER TABLE vote_keys ADD COLUMN invite_token TEXT`);
+  },
+};
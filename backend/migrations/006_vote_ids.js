@@ -0,0 +1,7 @@
+// Client-generated vote IDs, so a ballot replayed after reconnecting is counted once
+module.exports = {
+  description: "Add vote_id to vote_keys",
+  async up({ run }) {
+    await run(`ALTER TABLE vote_keys ADD COLUMN vote_id TEXT`);
+  },
+};
@@ -0,0 +1,10 @@
+// When each ballot was first recorded, so its receipt stays the same after a vote change or restart
+module.exports = {
+  description: "Add recorded_at to vote_keys",
+  async up({ run }) {
+    await run(`ALTER TABLE vote_keys ADD COLUMN recorded_at INTEGER`);
+
+    // Ballots cast before this have only their latest timestamp
+    await run(`UPDATE vote_keys SET recorded_at = timestamp`);
+  },
+};
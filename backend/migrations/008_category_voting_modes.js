@@ -0,0 +1,18 @@
+// Databases from before versioned migrations kept their old categories table,
+// which 001's CREATE TABLE IF NOT EXISTS left without the voting mode columns
+module.exports = {
+  description: "Add voting_mode and max_selections to categories",
+  async up({ run, all }) {
+    const columns = await all(`PRAGMA table_info(categories)`);
+    const hasColumn = (name) => columns.some((column) => column.name === name);
+
+    if (!hasColumn("voting_mode")) {
+      await run(
+        `ALTER TABLE categories ADD COLUMN voting_mode TEXT DEFAULT 'plurality'`
+      );
+    }
+    if (!hasColumn("max_selections")) {
+      await run(`ALTER TABLE categories ADD COLUMN max_selections INTEGER`);
+    }
+  },
+};
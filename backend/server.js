@@ -7,7 +7,20 @@ const { v4: uuidv4 } = require("uuid");
 const path = require("path");
 const fs = require("fs");
 const csv = require("csv-parser");
+const { Readable } = require("stream");
 const os = require("os");
+const crypto = require("crypto");
+const { runMigrations, getSchemaStatus } = require("./migrate");
+const {
+  verifyPassword,
+  createSessionToken,
+  readSessionToken,
+} = require("./auth");
+const {
+  DEFAULT_MAX_SELECTIONS,
+  voteError,
+  validateBallot,
+} = require("./ballotRules");
 
 /**
  * Get the local IP address of the machine
@@ -96,7 +109,75 @@ const io = socketIo(server, {
 });
 
 app.use(cors(corsOptions));
-app.use(express.json());
+app.use(express.json({ limit: "1mb" })); // Room for event imports
+
+// Admin credentials come from the environment (see .env.example)
+const ADMIN_USERNAME = process.env.ADMIN_USERNAME || "admin";
+// No built-in fallback: without a hash, admin login stays closed
+const ADMIN_PASSWORD_HASH = process.env.ADMIN_PASSWORD_HASH || "";
+// Without a fixed secret, restarting the backend signs every admin out
+const ADMIN_TOKEN_SECRET =
+  process.env.ADMIN_TOKEN_SECRET || crypto.randomBytes(32).toString("hex");
+const ADMIN_SESSION_MS =
+  (parseFloat(process.env.ADMIN_SESSION_HOURS) || 24) * 60 * 60 * 1000;
+
+// Presence: a participant whose socket drops is "away", keeping their place and
+// hasVoted, until PRESENCE_GRACE_SECONDS pass without them coming back ("gone")
+const PRESENCE_GRACE_MS =
+  (parseFloat(process.env.PRESENCE_GRACE_SECONDS) || 60) * 1000;
+// Participant pages heartbeat this often (mirrors HEARTBEAT_INTERVAL_MS in types/constants.ts)
+const HEARTBEAT_INTERVAL_MS = 30000;
+// Two missed heartbeats on a socket that never dropped also counts as away
+const HEARTBEAT_TIMEOUT_MS = HEARTBEAT_INTERVAL_MS * 2;
+const PRESENCE_SWEEP_MS = 5000;
+
+if (!ADMIN_PASSWORD_HASH) {
+  console.warn(
+    "ADMIN_PASSWORD_HASH is not set; admin login is disabled. Run `node hash-password.js <password>` and set it to enable the dashboard."
+  );
+}
+
+// Sessions signed out before they expired (id -> expiresAt)
+const revokedAdminSessions = new Map();
+
+// The admin session behind a token, or null if it's invalid, expired or signed out
+function getAdminSession(token) {
+  const session = readSessionToken(token, ADMIN_TOKEN_SECRET);
+  return session && !revokedAdminSessions.has(session.id) ? session : null;
+}
+
+function isAdminSessionActive(session) {
+  return (
+    !!session &&
+    session.expiresAt > Date.now() &&
+    !revokedAdminSessions.has(session.id)
+  );
+}
+
+function revokeAdminSession(session) {
+  const now = Date.now();
+  revokedAdminSessions.forEach((expiresAt, id) => {
+    if (expiresAt <= now) revokedAdminSessions.delete(id);
+  });
+  revokedAdminSessions.set(session.id, session.expiresAt);
+}
+
+function getBearerToken(req) {
+  const header = req.headers.authorization || "";
+  return header.startsWith("Bearer ") ? header.slice("Bearer ".length) : null;
+}
+
+// Admin-only REST routes need "Authorization: Bearer <token>"
+function requireAdmin(req, res, next) {
+  const session = getAdminSession(getBearerToken(req));
+  if (!session) {
+    res.status(401).json({ error: "Admin login required" });
+    return;
+  }
+
+  req.adminSession = session;
+  next();
+}
 
 
 
@@ -112,6 +193,10 @@ app.get("/", (req, res) => {
       participants: "/api/participants",
       reset: "/api/reset",
       serverInfo: "/api/server-info",
+      export: "/api/export?format=csv|json|html",
+      invites: "/api/invites",
+      schemaVersion: "/api/schema-version",
+      adminLogin: "/api/admin/login",
     },
   });
 });
@@ -119,118 +204,360 @@ app.get("/", (req, res) => {
 // Database setup
 const db = new sqlite3.Database("./voting.db");
 
-// Initialize database tables
-db.serialize(() => {
-  // Drop and recreate categories table to ensure proper schema
-  db.run(`DROP TABLE IF EXISTS categories`);
-  db.run(`CREATE TABLE categories (
-    id TEXT PRIMARY KEY,
-    title TEXT NOT NULL,
-    description TEXT,
-    options TEXT,
-    active BOOLEAN DEFAULT 0,
-    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-  )`);
-
-  db.run(`CREATE TABLE IF NOT EXISTS votes (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    category_id TEXT,
-    option TEXT NOT NULL,
-    participant_id TEXT,
-    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-    FOREIGN KEY (category_id) REFERENCES categories (id)
-  )`);
+// Promise wrappers for routes that chain several queries
+function dbGet(sql, params = []) {
+  return new Promise((resolve, reject) => {
+    db.get(sql, params, (err, row) => (err ? reject(err) : resolve(row)));
+  });
+}
 
-  db.run(
-    `CREATE TABLE IF NOT EXISTS participants (
-    id TEXT PRIMARY KEY,
-    name TEXT,
-    joined_at DATETIME DEFAULT CURRENT_TIMESTAMP
-  )`,
-    (err) => {
-      if (err) {
-        console.error("Error creating participants table:", err);
-      } else {
-        console.log("Database tables created successfully");
-        // Load awards after tables are created
-        loadAwardsFromCSV();
+function dbAll(sql, params = []) {
+  return new Promise((resolve, reject) => {
+    db.all(sql, params, (err, rows) => (err ? reject(err) : resolve(rows)));
+  });
+}
+
+function dbRun(sql, params = []) {
+  return new Promise((resolve, reject) => {
+    db.run(sql, params, (err) => (err ? reject(err) : resolve()));
+  });
+}
+
+// Bring the schema up to date, then restore confirmed roster identities,
+// the live event and awards
+runMigrations(db)
+  .then(() => {
+    console.log("Database schema is up to date");
+    loadIdentityClaims();
+    return loadLiveState();
+  })
+  .then(() => loadAwardsFromCSV())
+  .catch((err) => {
+    console.error("Error applying database migrations:", err);
+    process.exit(1);
+  });
+
+// Supported voting modes (mirrors VOTING_MODES in types/constants.ts)
+const VOTING_MODES = ["plurality", "ranked", "approval"];
+
+// Default category countdown in seconds (mirrors DEFAULT_VOTING_DURATION in types/constants.ts)
+const DEFAULT_VOTING_DURATION = 30;
+
+// Suspense before every screen shows a revealed winner, in milliseconds
+// (mirrors REVEAL_SUSPENSE_MS in types/constants.ts)
+const REVEAL_SUSPENSE_MS = 3000;
+
+// Runner-up places shown before the winner in a staged reveal
+// (mirrors DEFAULT_RUNNER_UP_PLACES and MAX_RUNNER_UP_PLACES in types/constants.ts)
+const DEFAULT_RUNNER_UP_PLACES = 2;
+const MAX_RUNNER_UP_PLACES = 2;
+
+// Longest countdown the admin can set, in seconds
+const MAX_VOTING_DURATION = 60 * 60;
+
+// CSV columns that describe the award rather than naming a participant
+const AWARD_COLUMNS = [
+  "Award Title",
+  "Description",
+  "Voting Mode",
+  "Max Selections",
+];
+
+function normalizeVotingMode(mode) {
+  const normalized = (mode || "").trim().toLowerCase();
+  return VOTING_MODES.includes(normalized) ? normalized : "plurality";
+}
+
+// Participant cells that mark someone as nominated for an award
+const NOMINATION_MARKERS = ["x", "y", "yes", "1", "true", "✓", "✔"];
+
+function isNominated(cell) {
+  return NOMINATION_MARKERS.includes((cell || "").trim().toLowerCase());
+}
+
+// Countdown length in seconds chosen by the admin, or the default
+function normalizeDuration(value) {
+  const parsed = parseInt(value, 10);
+  return Number.isInteger(parsed) && parsed > 0
+    ? Math.min(parsed, MAX_VOTING_DURATION)
+    : DEFAULT_VOTING_DURATION;
+}
+
+// Approval pick limit, or null for modes that take a single ballot
+function normalizeMaxSelections(votingMode, value) {
+  if (votingMode !== "approval") return null;
+  const parsed = parseInt(value, 10);
+  return Number.isInteger(parsed) && parsed > 0
+    ? parsed
+    : DEFAULT_MAX_SELECTIONS;
+}
+
+// Category IDs are slugs of their titles ("Best Dad Joke" -> "best-dad-joke")
+function getCategorySlug(title) {
+  return title.toLowerCase().replace(/[^a-z0-9]/g, "-");
+}
+
+// Limits for the admin category editor
+const MAX_CATEGORY_TITLE_LENGTH = 100;
+const MAX_CATEGORY_DESCRIPTION_LENGTH = 500;
+const MIN_CATEGORY_NOMINEES = 2;
+
+// Check a category editor payload; returns { error } or the cleaned { category }
+function validateCategoryInput(input) {
+  const title = typeof input.title === "string" ? input.title.trim() : "";
+  if (!title) {
+    return { error: "Title is required" };
+  }
+  if (title.length > MAX_CATEGORY_TITLE_LENGTH) {
+    return {
+      error: `Title must be ${MAX_CATEGORY_TITLE_LENGTH} characters or fewer`,
+    };
+  }
+  if (!/[a-z0-9]/i.test(title)) {
+    return { error: "Title needs at least one letter or number" };
+  }
+
+  const description =
+    typeof input.description === "string" ? input.description.trim() : "";
+  if (description.length > MAX_CATEGORY_DESCRIPTION_LENGTH) {
+    return {
+      error: `Description must be ${MAX_CATEGORY_DESCRIPTION_LENGTH} characters or fewer`,
+    };
+  }
+
+  if (!Array.isArray(input.options)) {
+    return { error: "Nominees must be a list of names" };
+  }
+  const options = input.options
+    .map((option) => (typeof option === "string" ? option.trim() : ""))
+    .filter((option) => option !== "");
+  if (options.length < MIN_CATEGORY_NOMINEES) {
+    return { error: `Add at least ${MIN_CATEGORY_NOMINEES} nominees` };
+  }
+  if (new Set(options).size !== options.length) {
+    return { error: "Each nominee can only be listed once" };
+  }
+
+  const votingMode = normalizeVotingMode(input.votingMode);
+  return {
+    category: {
+      title,
+      description:
+        description || "Vote for the team member who best fits this award!",
+      options,
+      votingMode,
+      maxSelections: normalizeMaxSelections(votingMode, input.maxSelections),
+    },
+  };
+}
+
+// Header names and rows of an awards.csv-style file
+function readCsvRows(content) {
+  return new Promise((resolve, reject) => {
+    let headers = [];
+    const rows = [];
+
+    Readable.from([content.replace(/^\uFEFF/, "")])
+      .pipe(csv({ mapHeaders: ({ header }) => header.trim() }))
+      .on("headers", (parsedHeaders) => {
+        headers = parsedHeaders.filter((header) => header !== "");
+      })
+      .on("data", (row) => rows.push(row))
+      .on("end", () => resolve({ headers, rows }))
+      .on("error", reject);
+  });
+}
+
+// awards.csv layout: award columns plus one column per participant, where a
+// marked cell shortlists that person (an unmarked row is open to everyone)
+async function parseCsvEvent(content) {
+  const { headers, rows } = await readCsvRows(content);
+  const participantNames = headers.filter(
+    (header) => !AWARD_COLUMNS.includes(header)
+  );
+
+  const rawCategories = [];
+  const issues = [];
+  rows.forEach((row, index) => {
+    const rowNumber = index + 2; // Row 1 is the header
+    const title = (row["Award Title"] || "").trim();
+    if (!title) {
+      if (Object.values(row).some((cell) => (cell || "").trim() !== "")) {
+        issues.push({
+          severity: "warning",
+          type: "missing-title",
+          message: `Row ${rowNumber} has no Award Title and will be skipped`,
+        });
       }
+      return;
     }
+
+    const nominees = participantNames.filter((name) => isNominated(row[name]));
+    rawCategories.push({
+      label: `Row ${rowNumber}`,
+      title,
+      description: row["Description"],
+      options: nominees.length > 0 ? nominees : participantNames,
+      votingMode: row["Voting Mode"],
+      maxSelections: row["Max Selections"],
+    });
+  });
+
+  return { roster: participantNames, rawCategories, issues };
+}
+
+// JSON layout: { roster?, categories: [{ title, description, nominees, votingMode?, maxSelections? }] }
+// or just the categories array; without a roster, every nominee is on it
+function parseJsonEvent(content) {
+  const parsed = JSON.parse(content);
+  const list = Array.isArray(parsed) ? parsed : parsed && parsed.categories;
+  if (!Array.isArray(list)) {
+    throw new Error("Expected a list of categories");
+  }
+
+  const rawCategories = list.map((item, index) => ({
+    label: `Category ${index + 1}`,
+    title: item && typeof item.title === "string" ? item.title.trim() : "",
+    description: item && item.description,
+    options: item && (item.nominees || item.options),
+    votingMode: item && item.votingMode,
+    maxSelections: item && item.maxSelections,
+  }));
+
+  const rosterNames =
+    parsed && Array.isArray(parsed.roster)
+      ? parsed.roster
+      : rawCategories.flatMap((item) =>
+        Array.isArray(item.options) ? item.options : []
+      );
+  const roster = Array.from(
+    new Set(
+      rosterNames
+        .filter((name) => typeof name === "string")
+        .map((name) => name.trim())
+        .filter((name) => name !== "")
+    )
   );
-});
+
+  return { roster, rawCategories, issues: [] };
+}
+
+// Parse an event definition (CSV or JSON) into its roster, the categories it
+// would create and everything an admin should see before importing it
+async function parseEventDefinition(content, format) {
+  let parsed;
+  try {
+    parsed =
+      format === "json" ? parseJsonEvent(content) : await parseCsvEvent(content);
+  } catch (err) {
+    return {
+      roster: [],
+      categories: [],
+      issues: [
+        {
+          severity: "error",
+          type: "parse-error",
+          message: `Couldn't read the ${format.toUpperCase()} file: ${err.message}`,
+        },
+      ],
+    };
+  }
+
+  const { roster: rosterNames, rawCategories, issues } = parsed;
+  const categoryList = [];
+  const titlesById = new Map();
+
+  rawCategories.forEach((raw) => {
+    if (!raw.title) {
+      issues.push({
+        severity: "warning",
+        type: "missing-title",
+        message: `${raw.label} has no title and will be skipped`,
+      });
+      return;
+    }
+
+    const { error, category } = validateCategoryInput(raw);
+    if (error) {
+      issues.push({
+        severity: "error",
+        type: "invalid-category",
+        message: `${raw.title}: ${error}`,
+      });
+      return;
+    }
+
+    const id = getCategorySlug(category.title);
+    if (titlesById.has(id)) {
+      issues.push({
+        severity: "error",
+        type: "duplicate-id",
+        categoryId: id,
+        message: `"${titlesById.get(id)}" and "${category.title}" both become the ID "${id}"; rename one of them`,
+      });
+    } else {
+      titlesById.set(id, category.title);
+    }
+
+    if (!(raw.description || "").trim()) {
+      issues.push({
+        severity: "warning",
+        type: "empty-description",
+        categoryId: id,
+        message: `${category.title} has no description; voters will see the default text`,
+      });
+    }
+
+    const rawMode = (raw.votingMode || "").trim().toLowerCase();
+    if (rawMode && !VOTING_MODES.includes(rawMode)) {
+      issues.push({
+        severity: "warning",
+        type: "unknown-voting-mode",
+        categoryId: id,
+        message: `${category.title} has an unknown voting mode "${raw.votingMode}"; it will use plurality`,
+      });
+    }
+
+    categoryList.push({ id, ...category });
+  });
+
+  if (categoryList.length === 0 && !issues.some((i) => i.type === "parse-error")) {
+    issues.push({
+      severity: "error",
+      type: "no-categories",
+      message: "No categories found",
+    });
+  }
+
+  return { roster: rosterNames, categories: categoryList, issues };
+}
 
 // Read awards from CSV and create categories
 function loadAwardsFromCSV() {
   console.log("Starting to load awards from CSV...");
-  const awards = [];
   const csvPath = path.join(__dirname, "../awards.csv");
 
   if (fs.existsSync(csvPath)) {
-    const fileContent = fs.readFileSync(csvPath, "utf-8");
-    const lines = fileContent.split(/\r?\n/);
-    if (lines.length === 0) return;
-
-    // Use the first line as the source of truth for participants
-    const headerLine = lines[0];
-
-    // Simple CSV split for the header (enough for this specific format)
-    const headers = headerLine.split(",").map(h => h.trim());
-    const allParticipants = headers.filter(
-      (h) => h !== "Award Title" && h !== "Description" && h !== ""
-    );
+    parseEventDefinition(fs.readFileSync(csvPath, "utf-8"), "csv")
+      .then((definition) => {
+        definition.issues.forEach((issue) => {
+          console.warn(`awards.csv: ${issue.message}`);
+        });
 
-    console.log(`Detected ${allParticipants.length} participants in CSV header.`);
-    console.log("Names:", allParticipants.join(", "));
-
-    // Use csv-parser for the data rows to handle quoted descriptions correctly
-    fs.createReadStream(csvPath)
-      .pipe(csv())
-      .on("data", (row) => {
-        const awardTitle = row["Award Title"];
-        if (awardTitle && awardTitle.trim() !== "") {
-          awards.push({
-            id: awardTitle.toLowerCase().replace(/[^a-z0-9]/g, "-"),
-            title: awardTitle,
-            description:
-              row["Description"] ||
-              `Vote for the team member who best fits this award!`,
-            options: allParticipants,
-          });
+        // A roster saved by an import or an earlier start wins over the header
+        if (roster.length === 0) {
+          roster = definition.roster;
         }
-      })
-      .on("end", () => {
-        console.log(`Finished processing ${awards.length} awards from CSV.`);
-
-        // Insert awards into database
-        awards.forEach((award) => {
-          db.run(
-            `INSERT INTO categories (id, title, description, options) VALUES (?, ?, ?, ?)`,
-            [
-              award.id,
-              award.title,
-              award.description,
-              JSON.stringify(award.options),
-            ],
-            (err) => {
-              if (err) {
-                console.error("Error inserting award:", award.title, err);
-              } else {
-                console.log("Inserted award:", award.title);
-              }
-            }
-          );
-        });
+        console.log(
+          `Detected ${definition.roster.length} participants in CSV header.`
+        );
+        console.log(
+          `Finished processing ${definition.categories.length} awards from CSV.`
+        );
 
-        // Verify insertion
-        db.all(`SELECT COUNT(*) as count FROM categories`, (err, rows) => {
-          if (err) {
-            console.error("Error counting categories:", err);
-          } else {
-            console.log("Total categories in database:", rows[0] ? rows[0].count : 0);
-          }
-        });
+        seedCategories(definition.categories);
       })
-      .on("error", (err) => {
+      .catch((err) => {
         console.error("Error reading CSV:", err);
       });
   } else {
@@ -257,25 +584,46 @@ function loadAwardsFromCSV() {
       },
     ];
 
-    defaultCategories.forEach((category) => {
+    seedCategories(defaultCategories);
+  }
+}
+
+// awards.csv only seeds an empty table; after that the admin category editor
+// owns the list, so edits survive restarts
+function seedCategories(seedList) {
+  db.get(`SELECT COUNT(*) as count FROM categories`, (err, row) => {
+    if (err) {
+      console.error("Error counting categories:", err);
+      return;
+    }
+
+    if (row.count > 0) {
+      console.log(`Keeping ${row.count} saved categories`);
+      return;
+    }
+
+    seedList.forEach((category, index) => {
       db.run(
-        `INSERT INTO categories (id, title, description, options) VALUES (?, ?, ?, ?)`,
+        `INSERT INTO categories (id, title, description, options, voting_mode, max_selections, sort_order) VALUES (?, ?, ?, ?, ?, ?, ?)`,
         [
           category.id,
           category.title,
           category.description,
           JSON.stringify(category.options),
+          category.votingMode || "plurality",
+          category.maxSelections || null,
+          index,
         ],
         (err) => {
           if (err) {
-            console.error("Error inserting default category:", category.title, err);
+            console.error("Error inserting category:", category.title, err);
           } else {
-            console.log("Inserted default category:", category.title);
+            console.log("Inserted category:", category.title);
           }
         }
       );
     });
-  }
+  });
 }
 
 // Store active voting session with enhanced state
@@ -284,6 +632,15 @@ let participants = new Map();
 let categories = new Map(); // Track category states
 let participantVotes = new Map(); // Track participant votes per category
 let deviceVotes = new Map(); // Track votes by device ID to prevent refresh-based duplicate voting
+let rankedBallots = new Map(); // Full preference orders per ranked category (never sent to clients)
+let roster = []; // Colleague names from the awards.csv header (every voter is also a nominee)
+let identityClaims = new Map(); // Roster name claimed by each participant ID, pending or approved
+let invites = new Map(); // Voter invite per token, one per roster member
+let inviteVotes = new Map(); // Ballots per invite token and category (replaces deviceVotes in invite-only mode)
+let inviteMode = false; // Only invite links can join and vote
+let autoCloseOnFullTurnout = false; // Stop the category once every participant has voted
+let votingTimer = null; // Auto-stops the current session when its countdown ends
+let completedSessions = new Map(); // Last closed session per category, kept so it can be reopened
 let connectionStats = {
   totalConnections: 0,
   peakConnections: 0,
@@ -291,13 +648,426 @@ let connectionStats = {
   lastVoteTime: null,
 };
 
-// Vote processing queue for high concurrency
-let voteQueue = [];
-let isProcessingVotes = false;
+// Vote processing queue for high concurrency
+let voteQueue = [];
+let isProcessingVotes = false;
+// Session whose queued ballots are being counted before it closes
+let closingSessionId = null;
+
+// Restore approved roster claims persisted in the participants table
+function loadIdentityClaims() {
+  db.all(
+    `SELECT id, name FROM participants WHERE name IS NOT NULL`,
+    (err, rows) => {
+      if (err) {
+        console.error("Error loading identity claims:", err);
+        return;
+      }
+      rows.forEach((row) => {
+        identityClaims.set(row.id, {
+          participantId: row.id,
+          name: row.name,
+          status: "approved",
+          requestedAt: null,
+        });
+      });
+      console.log(`Restored ${rows.length} confirmed participant identities`);
+    }
+  );
+}
+
+// Save category states and the live session so a restart resumes the event
+function persistLiveState() {
+  const snapshot = {
+    categories: Array.from(categories.entries()),
+    roster,
+    current_session: currentVotingSession,
+    completed_sessions: Array.from(completedSessions.entries()),
+    invite_mode: inviteMode,
+    auto_close: autoCloseOnFullTurnout,
+  };
+
+  Object.entries(snapshot).forEach(([key, value]) => {
+    db.run(
+      `INSERT OR REPLACE INTO live_state (key, value, updated_at) VALUES (?, ?, CURRENT_TIMESTAMP)`,
+      [key, JSON.stringify(value)],
+      (err) => {
+        if (err) {
+          console.error(`Error saving live state (${key}):`, err);
+        }
+      }
+    );
+  });
+}
+
+// Record a counted ballot; rebuilds participantVotes, deviceVotes and inviteVotes on boot.
+// Resolves once the row is written, so a ballot is only confirmed after its key is safe
+function persistVoteKey(vote) {
+  return dbRun(
+    `INSERT OR REPLACE INTO vote_keys (category_id, participant_id, device_id, invite_token, vote_id, option, ranking, selections, timestamp, recorded_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      vote.categoryId,
+      vote.participantId,
+      vote.deviceId,
+      vote.inviteToken || null,
+      vote.voteId || null,
+      vote.option,
+      vote.ranking ? JSON.stringify(vote.ranking) : null,
+      vote.selections ? JSON.stringify(vote.selections) : null,
+      vote.timestamp,
+      vote.recordedAt || vote.timestamp,
+    ]
+  );
+}
+
+// Rehydrate duplicate-vote protection, ranked ballots, the roster and the live session
+async function loadLiveState() {
+  try {
+    const voteRows = await dbAll(`SELECT * FROM vote_keys`);
+    voteRows.forEach((row) => {
+      const vote = {
+        categoryId: row.category_id,
+        option: row.option,
+        ranking: row.ranking ? JSON.parse(row.ranking) : null,
+        selections: row.selections ? JSON.parse(row.selections) : null,
+        participantId: row.participant_id,
+        deviceId: row.device_id,
+        inviteToken: row.invite_token,
+        voteId: row.vote_id || undefined,
+        timestamp: row.timestamp,
+        recordedAt: row.recorded_at || row.timestamp,
+      };
+      participantVotes.set(`${vote.participantId}-${vote.categoryId}`, vote);
+      if (vote.inviteToken) {
+        inviteVotes.set(`${vote.inviteToken}-${vote.categoryId}`, vote);
+      } else if (vote.deviceId) {
+        deviceVotes.set(`${vote.deviceId}-${vote.categoryId}`, vote);
+      }
+    });
+    console.log(`Restored ${voteRows.length} vote keys`);
+
+    const inviteRows = await dbAll(`SELECT * FROM invites`);
+    inviteRows.forEach((row) => {
+      invites.set(row.token, {
+        token: row.token,
+        name: row.name,
+        status: row.status,
+        createdAt: row.created_at,
+        usedAt: row.used_at || undefined,
+        revokedAt: row.revoked_at || undefined,
+      });
+    });
+
+    // Ranked ballots are stored with every ranked vote
+    const ballotRows = await dbAll(
+      `SELECT category_id, ranking FROM votes WHERE ranking IS NOT NULL ORDER BY id`
+    );
+    ballotRows.forEach((row) => {
+      if (!rankedBallots.has(row.category_id)) {
+        rankedBallots.set(row.category_id, []);
+      }
+      rankedBallots.get(row.category_id).push(JSON.parse(row.ranking));
+    });
+
+    const stateRows = await dbAll(`SELECT key, value FROM live_state`);
+    stateRows.forEach((row) => {
+      const value = JSON.parse(row.value);
+      if (row.key === "categories") {
+        categories = new Map(value);
+      } else if (row.key === "completed_sessions") {
+        completedSessions = new Map(value);
+      } else if (row.key === "current_session") {
+        currentVotingSession = value;
+      } else if (row.key === "roster") {
+        roster = value;
+      } else if (row.key === "invite_mode") {
+        inviteMode = value;
+      } else if (row.key === "auto_close") {
+        autoCloseOnFullTurnout = value;
+      }
+    });
+    console.log(`Restored state for ${categories.size} categories`);
+
+    // A countdown that ran out while the server was down closes right away
+    if (
+      currentVotingSession &&
+      currentVotingSession.active &&
+      currentVotingSession.phase === "voting"
+    ) {
+      console.log(`Resuming live category ${currentVotingSession.categoryId}`);
+      scheduleVotingTimer();
+    }
+  } catch (err) {
+    console.error("Error loading live state:", err);
+  }
+}
+
+// True when someone other than participantId has claimed the roster name
+function isRosterNameTaken(name, participantId) {
+  return Array.from(identityClaims.values()).some(
+    (claim) => claim.name === name && claim.participantId !== participantId
+  );
+}
+
+// Roster names plus those already spoken for, so pickers can grey them out
+function getRosterUpdate() {
+  return {
+    names: roster,
+    taken: Array.from(identityClaims.values()).map((claim) => claim.name),
+  };
+}
+
+// Pending claims for the admin check-in panel
+function getIdentityClaimsUpdate() {
+  const claims = Array.from(identityClaims.values());
+  return {
+    pending: claims.filter((claim) => claim.status === "pending"),
+    confirmed: claims.filter((claim) => claim.status === "approved").length,
+    rosterSize: roster.length,
+  };
+}
+
+// Tell a participant where their roster claim stands
+function sendIdentityStatus(socket, participantId) {
+  const claim = identityClaims.get(participantId);
+  socket.emit("roster", getRosterUpdate());
+  socket.emit(
+    "identity-status",
+    claim
+      ? { status: claim.status, name: claim.name }
+      : { status: "unclaimed" }
+  );
+}
+
+// Invites for the admin dashboard, in roster order
+function getInvitesUpdate() {
+  return {
+    enabled: inviteMode,
+    invites: Array.from(invites.values()).sort(
+      (a, b) => roster.indexOf(a.name) - roster.indexOf(b.name) || a.createdAt - b.createdAt
+    ),
+  };
+}
+
+function sendInvitesUpdate() {
+  io.to("admin-room").emit("invites-update", getInvitesUpdate());
+}
+
+function persistInvite(invite) {
+  db.run(
+    `INSERT OR REPLACE INTO invites (token, name, status, created_at, used_at, revoked_at) VALUES (?, ?, ?, ?, ?, ?)`,
+    [
+      invite.token,
+      invite.name,
+      invite.status,
+      invite.createdAt,
+      invite.usedAt || null,
+      invite.revokedAt || null,
+    ],
+    (err) => {
+      if (err) {
+        console.error("Error saving invite:", err);
+      }
+    }
+  );
+}
+
+// The invite behind a token, unless it's unknown or revoked
+function getUsableInvite(token) {
+  const invite = typeof token === "string" ? invites.get(token) : null;
+  return invite && invite.status !== "revoked" ? invite : null;
+}
+
+// Short URL-safe token, printed as a QR code on each invite card
+function createInviteToken() {
+  let token;
+  do {
+    token = crypto.randomBytes(9).toString("base64url");
+  } while (invites.has(token));
+  return token;
+}
+
+// A revoked invite can't join or vote again; anyone using it right now is told
+function revokeInvite(invite) {
+  invite.status = "revoked";
+  invite.revokedAt = Date.now();
+  persistInvite(invite);
+
+  io.sockets.sockets.forEach((socket) => {
+    if (socket.inviteToken === invite.token) {
+      socket.emit("invite-error", { code: "invite-revoked" });
+    }
+  });
+}
+
+// What the projector shows. Reveals and "back to the join screen" are set by
+// the admin; a session that ends after that takes over as "voting closed"
+let stageView = { screen: "idle", setAt: 0, result: null };
+
+function setStageView(screen, result = null) {
+  stageView = { screen, setAt: Date.now(), result };
+}
+
+// Read-only stage snapshot: turnout but never vote counts
+function getStageState() {
+  const session = currentVotingSession;
+  if (!session || (!session.active && session.endTime <= stageView.setAt)) {
+    if (stageView.screen === "reveal") {
+      return { screen: "reveal", result: stageView.result };
+    }
+    if (stageView.screen === "runner-up") {
+      return { screen: "runner-up", placing: stageView.result };
+    }
+    return { screen: "idle" };
+  }
+
+  const categoryState = categories.get(getSessionCategoryKey(session));
+  return {
+    screen: session.active ? "voting" : "closed",
+    session: {
+      categoryId: session.categoryId,
+      title: session.title,
+      description: session.description,
+      phase: session.phase,
+      endTime: session.endTime,
+      remainingTime: session.remainingTime,
+      runoffRound: session.runoffRound,
+    },
+    turnout: {
+      voted: (categoryState && categoryState.ballotCount) || 0,
+      total: getPresentParticipants().length,
+    },
+  };
+}
+
+function setPresence(participant, presence) {
+  if (participant.presence === presence) return false;
+  participant.presence = presence;
+  participant.presenceChangedAt = Date.now();
+  return true;
+}
+
+// Participants still expected to vote: online now or within their grace period
+function getPresentParticipants() {
+  return Array.from(participants.values()).filter(
+    (participant) => participant.presence !== "gone"
+  );
+}
+
+function getConnectedCount() {
+  return getPresentParticipants().filter(
+    (participant) => participant.presence === "online"
+  ).length;
+}
+
+// "Connected now" vs "joined this event" for the admin dashboard
+function getPresenceUpdate() {
+  const present = getPresentParticipants();
+  const connected = present.filter(
+    (participant) => participant.presence === "online"
+  ).length;
+  return {
+    connected,
+    away: present.length - connected,
+    joined: participants.size,
+  };
+}
+
+// Everything that counts participants changes together
+function sendPresenceUpdate() {
+  const presence = getPresenceUpdate();
+  io.to("admin-room").emit("presence-update", presence);
+  io.to("admin-room").to("voting-room").emit("participant-count", presence.connected);
+  sendStageUpdate();
+  sendTurnoutUpdate();
+}
+
+// Move stale participants along online -> away -> gone
+function sweepPresence() {
+  const now = Date.now();
+  let changed = false;
+
+  participants.forEach((participant) => {
+    if (
+      participant.presence === "online" &&
+      now - participant.lastSeen > HEARTBEAT_TIMEOUT_MS
+    ) {
+      changed = setPresence(participant, "away") || changed;
+    } else if (
+      participant.presence === "away" &&
+      now - participant.presenceChangedAt > PRESENCE_GRACE_MS
+    ) {
+      changed = setPresence(participant, "gone") || changed;
+    }
+  });
+
+  if (changed) sendPresenceUpdate();
+}
+
+setInterval(sweepPresence, PRESENCE_SWEEP_MS);
+
+// Who has and hasn't voted in the live category, by name only - never their picks
+function getTurnoutUpdate() {
+  const session = currentVotingSession;
+  const categoryId = session && session.active ? session.categoryId : null;
+  const present = getPresentParticipants();
+  const waiting = categoryId
+    ? present
+        .filter((participant) => !participant.hasVoted)
+        .map((participant) => ({
+          id: participant.id,
+          name: participant.name,
+          presence: participant.presence,
+        }))
+        .sort((a, b) => a.name.localeCompare(b.name))
+    : [];
+
+  return {
+    categoryId,
+    voted: categoryId ? present.length - waiting.length : 0,
+    total: present.length,
+    waiting,
+    autoClose: autoCloseOnFullTurnout,
+  };
+}
+
+function sendTurnoutUpdate() {
+  io.to("admin-room").emit("turnout-update", getTurnoutUpdate());
+}
+
+// Auto-close: once the last ballot is counted, stop the category as if the
+// admin had clicked Stop. Waits for the vote queue so no ballot is left out
+function closeOnFullTurnout() {
+  if (
+    !autoCloseOnFullTurnout ||
+    isProcessingVotes ||
+    voteQueue.length > 0 ||
+    !currentVotingSession ||
+    !currentVotingSession.active ||
+    currentVotingSession.phase !== "voting"
+  ) {
+    return;
+  }
+
+  const turnout = getTurnoutUpdate();
+  if (turnout.total > 0 && turnout.voted === turnout.total) {
+    console.log(
+      `Everyone has voted in ${currentVotingSession.categoryId}, closing it`
+    );
+    endVotingSession();
+  }
+}
+
+function sendStageUpdate() {
+  io.to("stage-room").to("admin-room").emit("stage-update", getStageState());
+}
 
 // Helper function to send admin status updates
 function sendAdminStatusUpdate() {
-  db.all(`SELECT * FROM categories ORDER BY created_at`, (err, rows) => {
+  sendStageUpdate();
+  sendTurnoutUpdate();
+
+  db.all(`SELECT * FROM categories ORDER BY sort_order, created_at`, (err, rows) => {
     if (err) {
       console.error("Error fetching categories for admin update:", err);
       return;
@@ -316,6 +1086,8 @@ function sendAdminStatusUpdate() {
         title: category.title,
         description: category.description,
         options: category.options ? JSON.parse(category.options) : [],
+        votingMode: category.voting_mode || "plurality",
+        maxSelections: category.max_selections || undefined,
         completed:
           categoryState.status === "completed" ||
           categoryState.status === "revealed",
@@ -326,16 +1098,345 @@ function sendAdminStatusUpdate() {
 
     io.to("admin-room").emit("admin-status", {
       currentSession: currentVotingSession,
-      participantCount: participants.size,
+      participantCount: getConnectedCount(),
       categories: categoriesWithStatus,
     });
   });
 }
 
+// Instant-runoff tally: repeatedly drop the weakest nominee(s) and transfer
+// their ballots to the next remaining preference until someone holds a majority
+function tallyInstantRunoff(ballots) {
+  const remaining = new Set();
+  ballots.forEach((ballot) => ballot.forEach((name) => remaining.add(name)));
+
+  const rounds = [];
+
+  while (remaining.size > 0) {
+    const tallies = {};
+    remaining.forEach((name) => {
+      tallies[name] = 0;
+    });
+
+    let exhausted = 0;
+    ballots.forEach((ballot) => {
+      const choice = ballot.find((name) => remaining.has(name));
+      if (choice) {
+        tallies[choice]++;
+      } else {
+        exhausted++;
+      }
+    });
+
+    const activeBallots = ballots.length - exhausted;
+    const counts = Object.values(tallies);
+    const maxVotes = Math.max(...counts);
+    const minVotes = Math.min(...counts);
+    const round = rounds.length + 1;
+
+    // Majority of continuing ballots, or only one nominee left
+    if (maxVotes * 2 > activeBallots || remaining.size === 1) {
+      const leader = Object.keys(tallies).find(
+        (name) => tallies[name] === maxVotes
+      );
+      rounds.push({ round, tallies, eliminated: [], exhausted });
+      return { winner: leader, rounds, isTie: false };
+    }
+
+    // Everyone left is tied at the bottom - nobody can be eliminated
+    if (minVotes === maxVotes) {
+      rounds.push({ round, tallies, eliminated: [], exhausted });
+      return { winner: Array.from(remaining), rounds, isTie: true };
+    }
+
+    const eliminated = Object.keys(tallies).filter(
+      (name) => tallies[name] === minVotes
+    );
+    eliminated.forEach((name) => remaining.delete(name));
+    rounds.push({ round, tallies, eliminated, exhausted });
+  }
+
+  return { winner: "", rounds, isTie: false };
+}
+
+// Store the runoff outcome on a ranked category once voting has closed
+function applyRankedTally(categoryId, categoryState) {
+  if (!categoryState || categoryState.votingMode !== "ranked") return;
+
+  const { winner, rounds } = tallyInstantRunoff(
+    rankedBallots.get(categoryId) || []
+  );
+  categoryState.winner = winner;
+  categoryState.rounds = rounds;
+}
+
+// Category state key for a session (runoffs report into their parent category)
+function getSessionCategoryKey(session) {
+  return session.parentCategoryId || session.categoryId;
+}
+
+// Current winner of a category state, from the runoff tally or the raw counts
+function getCategoryOutcome(categoryState) {
+  if (categoryState.votingMode === "ranked") {
+    const winner = categoryState.winner || "";
+    return { winner, isTie: Array.isArray(winner) && winner.length > 1 };
+  }
+
+  const results = categoryState.results || {};
+  const maxVotes = Math.max(...Object.values(results));
+  const winners = Object.keys(results).filter(
+    (option) => results[option] === maxVotes
+  );
+
+  return {
+    winner: winners.length === 1 ? winners[0] : winners,
+    isTie: winners.length > 1,
+  };
+}
+
+// Calculate percentage, to one decimal (mirrors calculatePercentage in types/utils.ts)
+function calculatePercentage(votes, totalVotes) {
+  if (totalVotes === 0) return 0;
+  return Math.round((votes / totalVotes) * 100 * 10) / 10;
+}
+
+// Top placings, tied nominees sharing one place (mirrors getTopResults in types/utils.ts)
+function getTopResults(results, maxResults = 3, ballotCount) {
+  const sortedEntries = Object.entries(results || {}).sort((a, b) => b[1] - a[1]);
+  const totalVotes =
+    ballotCount !== undefined
+      ? ballotCount
+      : sortedEntries.reduce((sum, [, votes]) => sum + votes, 0);
+  const uniqueVoteCounts = Array.from(
+    new Set(sortedEntries.map(([, votes]) => votes))
+  );
+
+  return uniqueVoteCounts.slice(0, maxResults).map((voteCount, index) => {
+    const tiedEntries = sortedEntries.filter(([, votes]) => votes === voteCount);
+    return {
+      position: index + 1,
+      name: tiedEntries.map(([name]) => name).join(" & "),
+      votes: voteCount,
+      percentage: calculatePercentage(voteCount, totalVotes),
+      isTie: tiedEntries.length > 1,
+    };
+  });
+}
+
+// Runner-up placings for a staged reveal, lowest place first. The winner (or
+// every tied winner) is left out so the places always lead up to the outcome
+function getRunnerUpSteps(categoryState, places) {
+  const { winner } = getCategoryOutcome(categoryState);
+  const winners = [].concat(winner);
+  const others = Object.fromEntries(
+    Object.entries(categoryState.results || {}).filter(
+      ([name]) => !winners.includes(name)
+    )
+  );
+  // Percentages stay shares of the whole category, winner included
+  const percentageBase =
+    categoryState.votingMode === "approval"
+      ? categoryState.ballotCount || 0
+      : Object.values(categoryState.results || {}).reduce(
+        (sum, count) => sum + count,
+        0
+      );
+
+  return getTopResults(others, places, percentageBase)
+    .map((result) => ({ ...result, position: result.position + 1 }))
+    .reverse();
+}
+
+// Forget a half-finished staged reveal (the category's results changed or
+// its winner went back behind the curtain)
+function clearRevealProgress(categoryState) {
+  delete categoryState.revealSteps;
+  delete categoryState.revealedPlaces;
+}
+
+// Close out the category behind a session that just stopped, keeping every
+// round (the main vote and any tie-break runoffs) in the category history
+function finalizeCategoryState(session) {
+  const categoryState = categories.get(getSessionCategoryKey(session));
+  if (!categoryState) return;
+
+  completedSessions.set(getSessionCategoryKey(session), {
+    ...session,
+    results: { ...session.results },
+  });
+
+  categoryState.status = "completed";
+  categoryState.completedAt = Date.now();
+  categoryState.results = { ...session.results };
+  categoryState.voteCount = Object.values(session.results).reduce(
+    (sum, count) => sum + count,
+    0
+  );
+  applyRankedTally(session.categoryId, categoryState);
+
+  const { winner, isTie } = getCategoryOutcome(categoryState);
+  categoryState.history = categoryState.history || [];
+  categoryState.history.push({
+    round: categoryState.history.length + 1,
+    type: session.parentCategoryId ? "runoff" : "main",
+    sessionId: session.id,
+    votingMode: categoryState.votingMode || "plurality",
+    options: session.options,
+    results: { ...categoryState.results },
+    rounds: categoryState.rounds,
+    winner,
+    isTie,
+    totalVotes: categoryState.voteCount,
+    startedAt: session.startTime,
+    completedAt: categoryState.completedAt,
+  });
+}
+
+// Voters must be confirmed as a roster name, and can't pick themselves
+function getIdentityError(participantId, { option, ranking, selections }) {
+  const identity = identityClaims.get(participantId);
+  const isConfirmed = identity && identity.status === "approved";
+  if (roster.length > 0 && !isConfirmed) {
+    return voteError("identity-required");
+  }
+
+  const picks = [option, ...(ranking || []), ...(selections || [])];
+  if (isConfirmed && picks.includes(identity.name)) {
+    return voteError("self-vote");
+  }
+
+  return null;
+}
+
+// Tell the voter why their ballot wasn't counted
+function emitVoteError(socket, action, ballot, error) {
+  socket.emit("vote-error", {
+    ...error,
+    action,
+    categoryId:
+      ballot && typeof ballot.categoryId === "string" ? ballot.categoryId : null,
+    voteId: ballot && typeof ballot.voteId === "string" ? ballot.voteId : undefined,
+  });
+}
+
+// Proof a ballot was recorded; fixed when it's first cast, so a replay of the
+// same vote ID gets the original back even after the vote was changed
+function getVoteReceipt(vote) {
+  return {
+    voteId: vote.voteId,
+    categoryId: vote.categoryId,
+    recordedAt: vote.recordedAt || vote.timestamp,
+  };
+}
+
+// What the participant hears back once their ballot is recorded (no results)
+function getVoteConfirmation(vote) {
+  return {
+    option: vote.option,
+    categoryId: vote.categoryId,
+    ranking: vote.ranking || undefined,
+    selections: vote.selections || undefined,
+    voteId: vote.voteId,
+    message: "Vote submitted! Wait for the admin to begin the next category",
+  };
+}
+
+// The ballot already recorded under this vote ID, if the client is replaying it
+function getReplayedVote(participantId, ballot) {
+  if (!ballot || typeof ballot.voteId !== "string" || !ballot.voteId) return null;
+  const vote = participantVotes.get(`${participantId}-${ballot.categoryId}`);
+  return vote && vote.voteId === ballot.voteId ? vote : null;
+}
+
+// The session ballots can be cast in right now, if any
+function getOpenVotingSession() {
+  return currentVotingSession &&
+    currentVotingSession.phase === "voting" &&
+    currentVotingSession.id !== closingSessionId
+    ? currentVotingSession
+    : null;
+}
+
+// Stop the current session automatically once its endTime passes
+function scheduleVotingTimer() {
+  clearVotingTimer();
+  if (!currentVotingSession || !currentVotingSession.endTime) return;
+
+  const sessionId = currentVotingSession.id;
+  votingTimer = setTimeout(() => {
+    votingTimer = null;
+    if (currentVotingSession && currentVotingSession.id === sessionId) {
+      console.log(`Countdown finished for ${currentVotingSession.categoryId}`);
+      endVotingSession();
+    }
+  }, Math.max(0, currentVotingSession.endTime - Date.now()));
+}
+
+function clearVotingTimer() {
+  if (votingTimer) {
+    clearTimeout(votingTimer);
+    votingTimer = null;
+  }
+}
+
+// Events only a signed-in admin may send
+const ADMIN_EVENTS = new Set([
+  "join-admin",
+  "resolve-identity-claim",
+  "set-stage-screen",
+  "start-category",
+  "stop-category",
+  "pause-category",
+  "resume-category",
+  "reveal-winner",
+  "reveal-runner-up",
+  "unreveal-category",
+  "reopen-category",
+  "start-runoff",
+  "start-voting",
+  "end-voting",
+  "set-auto-close",
+]);
+
+// Longest delay setTimeout accepts
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+// Sign an admin's sockets out, e.g. when their session expires or they log out
+function endAdminSockets(sessionId, reason) {
+  io.sockets.sockets.forEach((socket) => {
+    const session = socket.data.adminSession;
+    if (session && session.id === sessionId) {
+      socket.emit("admin-logged-out", { reason });
+      socket.disconnect(true);
+    }
+  });
+}
+
+// Participants connect without a token; an admin's token must be valid
+io.use((socket, next) => {
+  const token = socket.handshake.auth && socket.handshake.auth.token;
+  if (!token) {
+    next();
+    return;
+  }
+
+  const session = getAdminSession(token);
+  if (!session) {
+    next(new Error("Admin session expired"));
+    return;
+  }
+
+  socket.data.adminSession = session;
+  next();
+});
+
 // Socket.io connection handling
 io.on("connection", (socket) => {
   console.log("New client connected:", socket.id);
 
+  // Clients offset their clocks by this so countdowns match the server
+  socket.emit("server-time", Date.now());
+
   // Update connection stats
   connectionStats.totalConnections++;
   const currentConnections = io.engine.clientsCount;
@@ -347,6 +1448,30 @@ io.on("connection", (socket) => {
     `Active connections: ${currentConnections}, Peak: ${connectionStats.peakConnections}`
   );
 
+  // Admin events are dropped unless the handshake carried a live admin session
+  socket.use(([event], next) => {
+    if (!ADMIN_EVENTS.has(event) || isAdminSessionActive(socket.data.adminSession)) {
+      next();
+      return;
+    }
+
+    console.warn(`Rejected admin event "${event}" from`, socket.id);
+    socket.emit("error", "Admin login required");
+    if (socket.data.adminSession) {
+      socket.emit("admin-logged-out", { reason: "expired" });
+    }
+  });
+
+  // Disconnect the admin the moment their session runs out
+  let adminExpiryTimer = null;
+  if (socket.data.adminSession) {
+    const { id, expiresAt } = socket.data.adminSession;
+    adminExpiryTimer = setTimeout(
+      () => endAdminSockets(id, "expired"),
+      Math.min(MAX_TIMER_MS, Math.max(0, expiresAt - Date.now()))
+    );
+  }
+
   // Add error handling for socket
   socket.on("error", (error) => {
     console.error("Socket error for", socket.id, ":", error);
@@ -359,9 +1484,44 @@ io.on("connection", (socket) => {
 
   // Join voting room
   socket.on("join-voting", (data) => {
+    // Invite-only events admit invite links and nothing else
+    const invite = getUsableInvite(data.inviteToken);
+    if (inviteMode && !invite) {
+      socket.emit("invite-error", {
+        code: invites.has(data.inviteToken) ? "invite-revoked" : "invite-required",
+      });
+      return;
+    }
+
     const participantId = data.participantId || uuidv4();
+
+    // The invite vouches for its roster name, so there's no check-in step
+    if (invite) {
+      socket.inviteToken = invite.token;
+      const claim = identityClaims.get(participantId);
+      if (!claim || claim.name !== invite.name || claim.status !== "approved") {
+        identityClaims.set(participantId, {
+          participantId,
+          name: invite.name,
+          status: "approved",
+          requestedAt: null,
+        });
+        io.to("admin-room").emit("identity-claims", getIdentityClaimsUpdate());
+      }
+
+      if (invite.status === "unused") {
+        invite.status = "active";
+        invite.usedAt = Date.now();
+        persistInvite(invite);
+        sendInvitesUpdate();
+      }
+    }
+
+    const identity = identityClaims.get(participantId);
     const participantName =
-      data.name || `Participant ${participantId.slice(0, 8)}`;
+      identity && identity.status === "approved"
+        ? identity.name
+        : data.name || `Participant ${participantId.slice(0, 8)}`;
 
     // Check if participant is already in the room
     if (participants.has(participantId)) {
@@ -382,6 +1542,8 @@ io.on("connection", (socket) => {
       }
 
       existingParticipant.socketId = socket.id;
+      existingParticipant.lastSeen = Date.now();
+      const cameBack = setPresence(existingParticipant, "online");
       socket.participantId = participantId;
       socket.join("voting-room");
 
@@ -398,8 +1560,13 @@ io.on("connection", (socket) => {
         id: participantId,
         name: existingParticipant.name,
       });
+      sendIdentityStatus(socket, participantId);
 
-      socket.emit("participant-count", participants.size);
+      if (cameBack) {
+        sendPresenceUpdate();
+      } else {
+        socket.emit("participant-count", getConnectedCount());
+      }
       return;
     }
 
@@ -407,13 +1574,24 @@ io.on("connection", (socket) => {
       `Participant ${participantId} (${participantName}) joining voting room`
     );
 
+    // Someone rejoining mid-category (e.g. after a server restart) keeps their vote
+    const liveCategoryId =
+      currentVotingSession && currentVotingSession.active
+        ? currentVotingSession.categoryId
+        : null;
+    const hasVoted =
+      !!liveCategoryId && participantVotes.has(`${participantId}-${liveCategoryId}`);
+
     participants.set(participantId, {
       id: participantId,
       name: participantName,
       socketId: socket.id,
-      hasVoted: false,
-      currentCategoryId: null,
-      viewState: "waiting",
+      hasVoted,
+      currentCategoryId: liveCategoryId,
+      viewState: liveCategoryId ? (hasVoted ? "voted" : "voting") : "waiting",
+      presence: "online",
+      presenceChangedAt: Date.now(),
+      lastSeen: Date.now(),
     });
 
     socket.participantId = participantId;
@@ -433,19 +1611,117 @@ io.on("connection", (socket) => {
       id: participantId,
       name: participantName,
     });
+    sendIdentityStatus(socket, participantId);
 
-    // Update admin with participant count
-    io.to("admin-room").emit("participant-count", participants.size);
-
-    // Also send participant count to the joining participant
-    socket.emit("participant-count", participants.size);
+    // Update the admin, stage and everyone's participant count
+    sendPresenceUpdate();
 
     console.log(`Total participants after join: ${participants.size}`);
   });
 
+  // Participant claims a roster name; the admin confirms it before they can vote
+  socket.on("claim-identity", (data) => {
+    const participantId = socket.participantId;
+    const name = data && data.name;
+
+    if (!participantId) {
+      socket.emit("error", "Join the voting room before choosing your name");
+      return;
+    }
+
+    if (!roster.includes(name)) {
+      socket.emit("error", "That name is not on the roster");
+      return;
+    }
+
+    const existingClaim = identityClaims.get(participantId);
+    if (existingClaim && existingClaim.status === "approved") {
+      socket.emit("error", `You are already confirmed as ${existingClaim.name}`);
+      return;
+    }
+
+    if (isRosterNameTaken(name, participantId)) {
+      socket.emit("error", `${name} has already been claimed`);
+      return;
+    }
+
+    identityClaims.set(participantId, {
+      participantId,
+      name,
+      status: "pending",
+      requestedAt: Date.now(),
+    });
+
+    console.log(`Participant ${participantId} claims to be ${name}`);
+    socket.emit("identity-status", { status: "pending", name });
+    io.to("voting-room").emit("roster", getRosterUpdate());
+    io.to("admin-room").emit("identity-claims", getIdentityClaimsUpdate());
+  });
+
+  // Admin approves or rejects a pending roster claim
+  socket.on("resolve-identity-claim", (data) => {
+    const { participantId, approved } = data;
+    const claim = identityClaims.get(participantId);
+
+    if (!claim || claim.status !== "pending") {
+      socket.emit("error", "No pending claim for that participant");
+      return;
+    }
+
+    if (approved) {
+      claim.status = "approved";
+      db.run(
+        `INSERT OR REPLACE INTO participants (id, name) VALUES (?, ?)`,
+        [participantId, claim.name],
+        (err) => {
+          if (err) {
+            console.error("Error saving identity claim:", err);
+          }
+        }
+      );
+    } else {
+      identityClaims.delete(participantId);
+    }
+
+    const participant = participants.get(participantId);
+    if (participant) {
+      if (approved) {
+        participant.name = claim.name;
+        io.to(participant.socketId).emit("participant-info", {
+          id: participantId,
+          name: claim.name,
+        });
+      }
+      io.to(participant.socketId).emit("identity-status", {
+        status: approved ? "approved" : "rejected",
+        name: claim.name,
+      });
+    }
+
+    console.log(
+      `Identity claim ${participantId} as ${claim.name} ${approved ? "approved" : "rejected"}`
+    );
+    io.to("voting-room").emit("roster", getRosterUpdate());
+    io.to("admin-room").emit("identity-claims", getIdentityClaimsUpdate());
+    sendTurnoutUpdate();
+  });
+
   // Handle participant count requests
   socket.on("request-participant-count", () => {
-    socket.emit("participant-count", participants.size);
+    socket.emit("participant-count", getConnectedCount());
+  });
+
+  // Participant heartbeat (ConnectionManager's "ping"); the optional ack
+  // lets the page measure latency
+  socket.on("ping", (ack) => {
+    const participant = socket.participantId
+      ? participants.get(socket.participantId)
+      : null;
+    if (participant && participant.socketId === socket.id) {
+      participant.lastSeen = Date.now();
+      if (setPresence(participant, "online")) sendPresenceUpdate();
+    }
+    if (typeof ack === "function") ack();
   });
 
   // Handle voting status requests
@@ -470,7 +1746,7 @@ io.on("connection", (socket) => {
           results: {}, // Hide results from participants
         }
         : null,
-      participantCount: participants.size,
+      participantCount: getConnectedCount(),
       categories: Array.from(categories.values()).map((cat) => ({
         id: cat.id,
         title: cat.title,
@@ -483,59 +1759,113 @@ io.on("connection", (socket) => {
   });
 
   // Submit vote with confirmation flow
-  socket.on("submit-vote", (data) => {
-    if (!currentVotingSession || currentVotingSession.phase !== "voting") {
-      socket.emit("error", "No active voting session");
+  // The optional acknowledgement gets the outcome directly: "recorded" with a
+  // receipt or "rejected" with the error. No answer means the client can't
+  // tell, and retries with the same vote ID
+  socket.on("submit-vote", (data, ack) => {
+    const respond = typeof ack === "function" ? ack : () => {};
+    const rejectVote = (error) => {
+      emitVoteError(socket, "submit-vote", data, error);
+      respond({ status: "rejected", error });
+    };
+
+    // A ballot replayed after a lost acknowledgement or from the offline
+    // queue gets its original receipt, even if the category has closed since
+    const replayedVote = getReplayedVote(socket.participantId, data);
+    if (replayedVote) {
+      // The first send may have gone unanswered because its key failed to save
+      persistVoteKey(replayedVote)
+        .then(() => {
+          socket.emit("vote-confirmed", getVoteConfirmation(replayedVote));
+          respond({
+            status: "recorded",
+            receipt: getVoteReceipt(replayedVote),
+            duplicate: true,
+          });
+        })
+        .catch((err) => console.error("Error saving vote key:", err));
+      return;
+    }
+
+    if (currentVotingSession && currentVotingSession.phase === "paused") {
+      rejectVote(voteError("voting-paused"));
       return;
     }
 
-    const { categoryId, option, deviceId } = data;
     const participantId = socket.participantId;
 
+    // New ballots and changed ballots follow the same rules
+    const ballotError =
+      validateBallot(data, getOpenVotingSession()) ||
+      getIdentityError(participantId, data);
+    if (ballotError) {
+      rejectVote(ballotError);
+      return;
+    }
+
+    const { categoryId, option, deviceId, ranking, selections, voteId } = data;
+
+    const isRanked = currentVotingSession.votingMode === "ranked";
+    const isApproval = currentVotingSession.votingMode === "approval";
+
+    // Invite-only events allow one ballot per invite, whichever device casts it
+    const inviteToken = inviteMode ? socket.inviteToken : null;
+    const inviteVoteKey = inviteToken ? `${inviteToken}-${categoryId}` : null;
+    if (inviteMode) {
+      if (!getUsableInvite(inviteToken)) {
+        rejectVote(voteError("invite-required"));
+        return;
+      }
+      if (inviteVotes.has(inviteVoteKey)) {
+        rejectVote(voteError("already-voted"));
+        return;
+      }
+    }
+
     // Validate device ID
-    if (!deviceId) {
-      socket.emit("error", "Device identification required");
+    if (!inviteMode && (!deviceId || typeof deviceId !== "string")) {
+      rejectVote(voteError("device-required"));
       return;
     }
 
     // Check if this device already voted for this category (prevents refresh-based duplicate voting)
     const deviceVoteKey = `${deviceId}-${categoryId}`;
-    if (deviceVotes.has(deviceVoteKey)) {
-      socket.emit("error", "This device has already voted for this category");
+    if (!inviteMode && deviceVotes.has(deviceVoteKey)) {
+      rejectVote(voteError("device-already-voted"));
       return;
     }
 
     // Check if participant already voted for this category
     const voteKey = `${participantId}-${categoryId}`;
     if (participantVotes.has(voteKey)) {
-      socket.emit("error", "You have already voted for this category");
+      rejectVote(voteError("already-voted"));
       return;
     }
 
-    // Record the vote for both participant and device
-    participantVotes.set(voteKey, {
+    // Record the vote for the participant and their device or invite
+    const now = Date.now();
+    const vote = {
       categoryId,
       option,
+      ranking: isRanked ? ranking : null,
+      selections: isApproval ? selections : null,
       participantId,
       deviceId,
-      timestamp: Date.now(),
-    });
+      inviteToken,
+      voteId: typeof voteId === "string" ? voteId : undefined,
+      timestamp: now,
+      recordedAt: now,
+    };
+    participantVotes.set(voteKey, vote);
 
-    deviceVotes.set(deviceVoteKey, {
-      categoryId,
-      option,
-      participantId,
-      deviceId,
-      timestamp: Date.now(),
-    });
+    if (inviteVoteKey) {
+      inviteVotes.set(inviteVoteKey, vote);
+    } else {
+      deviceVotes.set(deviceVoteKey, vote);
+    }
 
     // Add vote to queue for processing
-    voteQueue.push({
-      categoryId,
-      option,
-      participantId,
-      timestamp: Date.now(),
-    });
+    voteQueue.push({ ...vote });
 
     // Update participant state
     const participant = participants.get(participantId);
@@ -550,11 +1880,105 @@ io.on("connection", (socket) => {
       processVoteQueue();
     }
 
-    // Confirm vote to participant (no results shown)
-    socket.emit("vote-confirmed", {
+    // Confirm vote to participant (no results shown) once its key is saved, so
+    // a crash before the queue gets to it can't count a retry a second time.
+    // If saving fails the ballot stays unanswered and the phone retries
+    persistVoteKey(vote)
+      .then(() => {
+        socket.emit("vote-confirmed", getVoteConfirmation(vote));
+        respond({ status: "recorded", receipt: getVoteReceipt(vote) });
+      })
+      .catch((err) => console.error("Error saving vote key:", err));
+  });
+
+  // Replace an earlier ballot while the category is still open for voting
+  socket.on("change-vote", (data) => {
+    const rejectVote = (error) =>
+      emitVoteError(socket, "change-vote", data, error);
+
+    if (currentVotingSession && currentVotingSession.phase === "paused") {
+      rejectVote(voteError("voting-paused"));
+      return;
+    }
+
+    const sessionError = validateBallot(data, getOpenVotingSession());
+    if (sessionError) {
+      rejectVote(sessionError);
+      return;
+    }
+
+    const { categoryId, option, ranking, selections } = data;
+    const participantId = socket.participantId;
+
+    const voteKey = `${participantId}-${categoryId}`;
+    const previousVote = participantVotes.get(voteKey);
+    if (!previousVote) {
+      rejectVote(voteError("not-voted-yet"));
+      return;
+    }
+
+    const identityError = getIdentityError(participantId, data);
+    if (identityError) {
+      rejectVote(identityError);
+      return;
+    }
+
+    if (inviteMode && !getUsableInvite(socket.inviteToken)) {
+      rejectVote(voteError("invite-required"));
+      return;
+    }
+
+    const isRanked = currentVotingSession.votingMode === "ranked";
+    const isApproval = currentVotingSession.votingMode === "approval";
+
+    const changedVote = {
+      ...previousVote,
+      option,
+      ranking: isRanked ? ranking : null,
+      selections: isApproval ? selections : null,
+      timestamp: Date.now(),
+    };
+    participantVotes.set(voteKey, changedVote);
+    if (previousVote.inviteToken) {
+      inviteVotes.set(`${previousVote.inviteToken}-${categoryId}`, changedVote);
+    } else {
+      deviceVotes.set(`${previousVote.deviceId}-${categoryId}`, changedVote);
+    }
+
+    // Queued behind the original vote so the swap always sees it counted
+    voteQueue.push({
+      categoryId,
+      option,
+      ranking: changedVote.ranking,
+      selections: changedVote.selections,
+      participantId,
+      deviceId: previousVote.deviceId,
+      inviteToken: previousVote.inviteToken,
+      // Keeps the original receipt: the vote key row is replaced on a change
+      voteId: previousVote.voteId,
+      recordedAt: previousVote.recordedAt,
+      previous: {
+        option: previousVote.option,
+        ranking: previousVote.ranking,
+        selections: previousVote.selections,
+      },
+      timestamp: Date.now(),
+    });
+
+    if (!isProcessingVotes) {
+      processVoteQueue();
+    }
+
+    console.log(
+      `Participant ${participantId} changed vote in ${categoryId}: ${previousVote.option} -> ${option}`
+    );
+
+    socket.emit("vote-changed", {
       option,
       categoryId,
-      message: "Vote submitted! Wait for the admin to begin the next category",
+      ranking: changedVote.ranking || undefined,
+      selections: changedVote.selections || undefined,
+      message: "Vote updated! You can change it until voting closes",
     });
   });
 
@@ -564,11 +1988,44 @@ io.on("connection", (socket) => {
 
     // Send initial admin status
     sendAdminStatusUpdate();
+    socket.emit("identity-claims", getIdentityClaimsUpdate());
+    socket.emit("invites-update", getInvitesUpdate());
+    socket.emit("presence-update", getPresenceUpdate());
+  });
+
+  // Toggle stopping the live category automatically at 100% turnout
+  socket.on("set-auto-close", (data) => {
+    if (!data || typeof data.enabled !== "boolean") {
+      socket.emit("error", "Auto-close must be turned on or off");
+      return;
+    }
+
+    autoCloseOnFullTurnout = data.enabled;
+    persistLiveState();
+    sendTurnoutUpdate();
+    closeOnFullTurnout();
+  });
+
+  // Projector view: read-only, gets stage snapshots and nothing else
+  socket.on("join-stage", () => {
+    socket.join("stage-room");
+    socket.emit("stage-update", getStageState());
+  });
+
+  // Admin sends the projector back to the join splash
+  socket.on("set-stage-screen", (data) => {
+    if (!data || data.screen !== "idle") {
+      socket.emit("error", "The stage can only be sent back to the join screen");
+      return;
+    }
+
+    setStageView("idle");
+    sendStageUpdate();
   });
 
   // Start category voting (admin-controlled) - Updated for enhanced interface
   socket.on("start-category", (data) => {
-    const { categoryId } = data;
+    const { categoryId, votingMode, maxSelections, duration } = data;
 
     // Get category details
     db.get(
@@ -600,31 +2057,49 @@ io.on("connection", (socket) => {
           return;
         }
 
-        // Start new session with admin-controlled state (no timers)
+        // Admin may override the configured mode when launching
+        const sessionVotingMode = VOTING_MODES.includes(votingMode)
+          ? votingMode
+          : category.voting_mode || "plurality";
+        const sessionMaxSelections = normalizeMaxSelections(
+          sessionVotingMode,
+          maxSelections || category.max_selections
+        );
+
+        // Start new session; the admin can still stop it before the countdown ends
+        const sessionDuration = normalizeDuration(duration);
+        const startTime = Date.now();
         currentVotingSession = {
           id: uuidv4(),
           categoryId: category.id,
           title: category.title,
           description: category.description,
           active: true,
-          startTime: Date.now(),
-          endTime: null, // Admin manually ends voting
+          startTime,
+          endTime: startTime + sessionDuration * 1000,
+          duration: sessionDuration,
           results: {},
           options: category.options
             ? JSON.parse(category.options)
             : ["Option A", "Option B", "Option C", "Option D"],
           phase: "voting",
           adminControlled: true,
+          votingMode: sessionVotingMode,
+          maxSelections: sessionMaxSelections || undefined,
         };
 
         // Update category state
         categories.set(categoryId, {
           status: "active",
           voteCount: 0,
+          ballotCount: 0,
           results: {},
           revealed: false,
           startedAt: Date.now(),
+          votingMode: sessionVotingMode,
+          maxSelections: sessionMaxSelections || undefined,
         });
+        rankedBallots.set(categoryId, []);
 
         // Reset participant states for new category
         participants.forEach((participant) => {
@@ -642,6 +2117,9 @@ io.on("connection", (socket) => {
 
         // Broadcast to admin (with full data including enhanced state)
         io.to("admin-room").emit("category-started", currentVotingSession);
+        scheduleVotingTimer();
+
+        persistLiveState();
 
         // Send updated admin status with all categories
         sendAdminStatusUpdate();
@@ -661,40 +2139,73 @@ io.on("connection", (socket) => {
       return;
     }
 
-    // End the voting session
-    currentVotingSession.active = false;
-    currentVotingSession.phase = "completed";
-    currentVotingSession.endTime = Date.now();
+    // Stopping early and the countdown running out end the same way
+    endVotingSession();
+  });
 
-    // Update category state
-    const categoryState = categories.get(categoryId);
-    if (categoryState) {
-      categoryState.status = "completed";
-      categoryState.completedAt = Date.now();
-      categoryState.results = { ...currentVotingSession.results };
-      categoryState.voteCount = Object.values(
-        currentVotingSession.results
-      ).reduce((sum, count) => sum + count, 0);
+  // Pause an active category without closing it; the countdown freezes
+  socket.on("pause-category", (data) => {
+    const { categoryId } = data;
+
+    if (
+      !currentVotingSession ||
+      currentVotingSession.categoryId !== categoryId ||
+      currentVotingSession.phase !== "voting"
+    ) {
+      socket.emit("error", "No running session to pause for this category");
+      return;
     }
 
-    // Update participant states
-    participants.forEach((participant) => {
-      if (participant.currentCategoryId === categoryId) {
-        participant.viewState = "waiting";
-      }
-    });
+    clearVotingTimer();
+    currentVotingSession.phase = "paused";
+    currentVotingSession.pausedAt = Date.now();
+    if (currentVotingSession.endTime) {
+      currentVotingSession.remainingTime = Math.max(
+        0,
+        currentVotingSession.endTime - Date.now()
+      );
+      currentVotingSession.endTime = null;
+    }
 
-    // Broadcast to participants (still no results)
-    const participantSession = {
+    console.log(`Category ${categoryId} paused`);
+    io.to("voting-room").emit("category-paused", {
       ...currentVotingSession,
-      results: {},
-    };
-    io.to("voting-room").emit("category-stopped", participantSession);
+      results: {}, // Hide results from participants
+    });
+    io.to("admin-room").emit("category-paused", currentVotingSession);
+    persistLiveState();
+    sendAdminStatusUpdate();
+  });
 
-    // Broadcast to admin (with results)
-    io.to("admin-room").emit("category-stopped", currentVotingSession);
+  // Resume a paused category with whatever time was left on the countdown
+  socket.on("resume-category", (data) => {
+    const { categoryId } = data;
 
-    // Send updated admin status with all categories
+    if (
+      !currentVotingSession ||
+      currentVotingSession.categoryId !== categoryId ||
+      currentVotingSession.phase !== "paused"
+    ) {
+      socket.emit("error", "This category is not paused");
+      return;
+    }
+
+    currentVotingSession.phase = "voting";
+    if (currentVotingSession.remainingTime !== undefined) {
+      currentVotingSession.endTime =
+        Date.now() + currentVotingSession.remainingTime;
+    }
+    delete currentVotingSession.remainingTime;
+    delete currentVotingSession.pausedAt;
+    scheduleVotingTimer();
+
+    console.log(`Category ${categoryId} resumed`);
+    io.to("voting-room").emit("category-resumed", {
+      ...currentVotingSession,
+      results: {}, // Hide results from participants
+    });
+    io.to("admin-room").emit("category-resumed", currentVotingSession);
+    persistLiveState();
     sendAdminStatusUpdate();
   });
 
@@ -716,31 +2227,328 @@ io.on("connection", (socket) => {
       return;
     }
 
-    // Calculate winner
+    // Calculate winner (ranked categories were tallied when voting closed,
+    // and a tie-break runoff replaces the tied results it was launched from)
     const results = categoryState.results;
-    const maxVotes = Math.max(...Object.values(results));
-    const winners = Object.keys(results).filter(
-      (option) => results[option] === maxVotes
-    );
-
-    const categoryResult = {
-      categoryId,
-      title: currentVotingSession?.title || "Unknown Category",
-      description: currentVotingSession?.description || "",
-      results,
-      winner: winners.length === 1 ? winners[0] : winners,
-      totalVotes: Object.values(results).reduce((sum, count) => sum + count, 0),
-      revealed: true,
-      revealedAt: Date.now(),
-    };
+    const isRanked = categoryState.votingMode === "ranked";
+    const { winner, isTie } = getCategoryOutcome(categoryState);
 
     // Update category state
     categoryState.revealed = true;
     categoryState.revealedAt = Date.now();
     categoryState.status = "revealed";
+    persistLiveState();
+
+    // Phones and the stage flip to the winner together at this server time
+    const revealAt = categoryState.revealedAt + REVEAL_SUSPENSE_MS;
+
+    // The live session may already belong to another category, so the
+    // award's title comes from the saved category
+    db.get(
+      `SELECT title, description FROM categories WHERE id = ?`,
+      [categoryId],
+      (err, category) => {
+        if (err) {
+          console.error("Error fetching revealed category:", err);
+        }
+
+        const categoryResult = {
+          categoryId,
+          title: category?.title || "Unknown Category",
+          description: category?.description || "",
+          results,
+          winner,
+          totalVotes: Object.values(results).reduce(
+            (sum, count) => sum + count,
+            0
+          ),
+          revealed: true,
+          revealedAt: categoryState.revealedAt,
+          revealAt,
+          votingMode: categoryState.votingMode || "plurality",
+          rounds: isRanked ? categoryState.rounds : undefined,
+          maxSelections: categoryState.maxSelections,
+          ballotCount: categoryState.ballotCount || 0,
+          history: categoryState.history || [],
+        };
+
+        setStageView("reveal", {
+          categoryId,
+          title: categoryResult.title,
+          description: categoryResult.description,
+          winner,
+          isTie,
+          revealAt,
+        });
+        sendStageUpdate();
+
+        // Broadcast winner reveal to all clients
+        io.emit("winner-revealed", categoryResult);
+      }
+    );
+  });
+
+  // Staged reveal: show the next runner-up place ahead of the winner. The
+  // places are fixed on the first step so every screen counts down the same list
+  socket.on("reveal-runner-up", (data) => {
+    const { categoryId, places } = data || {};
+
+    const categoryState = categories.get(categoryId);
+    if (!categoryState || categoryState.status !== "completed") {
+      socket.emit(
+        "error",
+        "Category must be completed before revealing its places"
+      );
+      return;
+    }
+
+    if (!categoryState.revealSteps) {
+      const requested = parseInt(places, 10);
+      const placeCount = Number.isInteger(requested)
+        ? Math.min(Math.max(requested, 0), MAX_RUNNER_UP_PLACES)
+        : DEFAULT_RUNNER_UP_PLACES;
+      categoryState.revealSteps = getRunnerUpSteps(categoryState, placeCount);
+      categoryState.revealedPlaces = [];
+    }
+
+    const step =
+      categoryState.revealSteps[categoryState.revealedPlaces.length];
+    if (!step) {
+      socket.emit("error", "Every runner-up place has been revealed already");
+      return;
+    }
+
+    categoryState.revealedPlaces.push(step);
+    persistLiveState();
+
+    db.get(
+      `SELECT title FROM categories WHERE id = ?`,
+      [categoryId],
+      (err, category) => {
+        if (err) {
+          console.error("Error fetching category for runner-up reveal:", err);
+        }
+
+        const placing = {
+          categoryId,
+          title: category?.title || "Unknown Category",
+          ...step,
+          remaining:
+            categoryState.revealSteps.length -
+            categoryState.revealedPlaces.length,
+        };
+
+        setStageView("runner-up", placing);
+        sendStageUpdate();
+
+        // Mirror the step on every screen
+        io.emit("runner-up-revealed", placing);
+        sendAdminStatusUpdate();
+      }
+    );
+  });
+
+  // Hide a revealed winner again; the category goes back to "ready to reveal"
+  socket.on("unreveal-category", (data) => {
+    const { categoryId } = data;
+
+    const categoryState = categories.get(categoryId);
+    if (!categoryState || !categoryState.revealed) {
+      socket.emit("error", "This category's winner has not been revealed");
+      return;
+    }
+
+    categoryState.revealed = false;
+    categoryState.status = "completed";
+    delete categoryState.revealedAt;
+    clearRevealProgress(categoryState);
+
+    // Take the winner off the projector too
+    if (stageView.result && stageView.result.categoryId === categoryId) {
+      setStageView("idle");
+    }
+
+    console.log(`Winner hidden again for ${categoryId}`);
+    io.emit("winner-hidden", { categoryId });
+    persistLiveState();
+    sendAdminStatusUpdate();
+  });
+
+  // Reopen a completed category, keeping every vote already collected
+  socket.on("reopen-category", (data) => {
+    const { categoryId, duration } = data;
+
+    const categoryState = categories.get(categoryId);
+    if (categoryState && categoryState.status === "revealed") {
+      socket.emit(
+        "error",
+        "Hide the revealed winner before reopening this category"
+      );
+      return;
+    }
+
+    const closedSession = completedSessions.get(categoryId);
+    if (!categoryState || categoryState.status !== "completed" || !closedSession) {
+      socket.emit("error", "Only completed categories can be reopened");
+      return;
+    }
+
+    if (currentVotingSession && currentVotingSession.active) {
+      socket.emit(
+        "error",
+        "Another category is currently active. Please stop it first."
+      );
+      return;
+    }
+
+    // The round being reopened will be recorded again when it closes
+    const history = categoryState.history || [];
+    if (
+      history.length > 0 &&
+      history[history.length - 1].sessionId === closedSession.id
+    ) {
+      history.pop();
+    }
+
+    const sessionDuration = normalizeDuration(duration);
+    currentVotingSession = {
+      ...closedSession,
+      active: true,
+      phase: "voting",
+      endTime: Date.now() + sessionDuration * 1000,
+      duration: sessionDuration,
+      results: { ...closedSession.results },
+    };
+    completedSessions.delete(categoryId);
+
+    categoryState.status = "active";
+    delete categoryState.completedAt;
+    delete categoryState.winner;
+    clearRevealProgress(categoryState);
+    delete categoryState.rounds;
 
-    // Broadcast winner reveal to all clients
-    io.emit("winner-revealed", categoryResult);
+    // Anyone who already voted stays locked in; everyone else can vote now
+    participants.forEach((participant) => {
+      const hasVoted = participantVotes.has(
+        `${participant.id}-${currentVotingSession.categoryId}`
+      );
+      participant.hasVoted = hasVoted;
+      participant.currentCategoryId = currentVotingSession.categoryId;
+      participant.viewState = hasVoted ? "voted" : "voting";
+    });
+
+    console.log(`Category ${categoryId} reopened for ${sessionDuration}s`);
+    io.to("voting-room").emit("category-reopened", {
+      ...currentVotingSession,
+      results: {}, // Hide results from participants
+    });
+    io.to("admin-room").emit("category-reopened", currentVotingSession);
+    scheduleVotingTimer();
+
+    persistLiveState();
+    sendAdminStatusUpdate();
+  });
+
+  // Start a tie-break runoff restricted to the nominees tied for first place
+  socket.on("start-runoff", (data) => {
+    const { categoryId, duration } = data;
+
+    const categoryState = categories.get(categoryId);
+    if (
+      !categoryState ||
+      (categoryState.status !== "completed" &&
+        categoryState.status !== "revealed")
+    ) {
+      socket.emit(
+        "error",
+        "Category must be completed before starting a runoff"
+      );
+      return;
+    }
+
+    const { winner, isTie } = getCategoryOutcome(categoryState);
+    if (!isTie) {
+      socket.emit("error", "Runoffs can only be started for tied categories");
+      return;
+    }
+
+    // Check if another category is currently active
+    if (currentVotingSession && currentVotingSession.active) {
+      socket.emit(
+        "error",
+        "Another category is currently active. Please stop it first."
+      );
+      return;
+    }
+
+    db.get(
+      `SELECT * FROM categories WHERE id = ?`,
+      [categoryId],
+      (err, category) => {
+        if (err || !category) {
+          socket.emit("error", "Category not found");
+          return;
+        }
+
+        const runoffRound =
+          (categoryState.history || []).filter(
+            (round) => round.type === "runoff"
+          ).length + 1;
+
+        // Runoffs get their own category ID so votes and participant history
+        // stay separate from the tied round
+        const sessionDuration = normalizeDuration(duration);
+        const startTime = Date.now();
+        currentVotingSession = {
+          id: uuidv4(),
+          categoryId: `${categoryId}--runoff-${runoffRound}`,
+          parentCategoryId: categoryId,
+          runoffRound,
+          title: `${category.title} (Tie-Break)`,
+          description: category.description,
+          active: true,
+          startTime,
+          endTime: startTime + sessionDuration * 1000,
+          duration: sessionDuration,
+          results: {},
+          options: winner,
+          phase: "voting",
+          adminControlled: true,
+          votingMode: "plurality",
+        };
+
+        // Reopen the parent category; the tied round stays in its history
+        categoryState.status = "active";
+        categoryState.results = {};
+        categoryState.voteCount = 0;
+        categoryState.ballotCount = 0;
+        categoryState.revealed = false;
+        categoryState.votingMode = "plurality";
+        delete categoryState.revealedAt;
+        delete categoryState.winner;
+        clearRevealProgress(categoryState);
+        delete categoryState.rounds;
+        delete categoryState.maxSelections;
+
+        // Reset participant states for the runoff
+        participants.forEach((participant) => {
+          participant.hasVoted = false;
+          participant.currentCategoryId = currentVotingSession.categoryId;
+          participant.viewState = "voting";
+        });
+
+        const participantSession = {
+          ...currentVotingSession,
+          results: {}, // Hide results from participants
+        };
+        io.to("voting-room").emit("category-started", participantSession);
+        io.to("admin-room").emit("category-started", currentVotingSession);
+        scheduleVotingTimer();
+
+        persistLiveState();
+        sendAdminStatusUpdate();
+      }
+    );
   });
 
   // Legacy support for backward compatibility
@@ -779,9 +2587,7 @@ io.on("connection", (socket) => {
         }
 
         // Clear previous session if any
-        if (votingTimer) {
-          clearTimeout(votingTimer);
-        }
+        clearVotingTimer();
 
         // Start new session with enhanced state
         currentVotingSession = {
@@ -798,6 +2604,8 @@ io.on("connection", (socket) => {
             : ["Option A", "Option B", "Option C", "Option D"],
           phase: "voting",
           adminControlled: true,
+          votingMode: category.voting_mode || "plurality",
+          maxSelections: category.max_selections || undefined,
         };
 
         // Update category state
@@ -807,7 +2615,10 @@ io.on("connection", (socket) => {
           results: {},
           revealed: false,
           startedAt: Date.now(),
+          votingMode: category.voting_mode || "plurality",
+          maxSelections: category.max_selections || undefined,
         });
+        rankedBallots.set(categoryId, []);
 
         // Reset participant states for new category
         participants.forEach((participant) => {
@@ -826,6 +2637,8 @@ io.on("connection", (socket) => {
         // Broadcast to admin (with full data including enhanced state)
         io.to("admin-room").emit("voting-started", currentVotingSession);
 
+        persistLiveState();
+
         // Send updated admin status with all categories
         sendAdminStatusUpdate();
       }
@@ -836,22 +2649,17 @@ io.on("connection", (socket) => {
     // Handle legacy end-voting by stopping current category
     if (currentVotingSession && currentVotingSession.active) {
       const categoryId = currentVotingSession.categoryId;
+      clearVotingTimer();
 
       // End the voting session
       currentVotingSession.active = false;
       currentVotingSession.phase = "completed";
       currentVotingSession.endTime = Date.now();
+      delete currentVotingSession.remainingTime;
+      delete currentVotingSession.pausedAt;
 
       // Update category state
-      const categoryState = categories.get(categoryId);
-      if (categoryState) {
-        categoryState.status = "completed";
-        categoryState.completedAt = Date.now();
-        categoryState.results = { ...currentVotingSession.results };
-        categoryState.voteCount = Object.values(
-          currentVotingSession.results
-        ).reduce((sum, count) => sum + count, 0);
-      }
+      finalizeCategoryState(currentVotingSession);
 
       // Update participant states
       participants.forEach((participant) => {
@@ -870,6 +2678,8 @@ io.on("connection", (socket) => {
       // Broadcast to admin (with results)
       io.to("admin-room").emit("voting-ended", currentVotingSession);
 
+      persistLiveState();
+
       // Send updated admin status
       sendAdminStatusUpdate();
     }
@@ -878,14 +2688,18 @@ io.on("connection", (socket) => {
   // Disconnect handling
   socket.on("disconnect", (reason) => {
     console.log("Client disconnected:", socket.id, "Reason:", reason);
-
-    if (socket.participantId) {
-      console.log(
-        `Removing participant ${socket.participantId} from participants list`
-      );
-      participants.delete(socket.participantId);
-      io.to("admin-room").emit("participant-count", participants.size);
-      console.log(`Total participants after disconnect: ${participants.size}`);
+    clearTimeout(adminExpiryTimer);
+
+    // The participant stays, "away", in case this is just a locked screen.
+    // A newer socket (a quick reconnect or second tab) may already own them
+    const participant = socket.participantId
+      ? participants.get(socket.participantId)
+      : null;
+    if (participant && participant.socketId === socket.id) {
+      console.log(`Participant ${socket.participantId} is away`);
+      participant.socketId = null;
+      setPresence(participant, "away");
+      sendPresenceUpdate();
     }
 
     // Clean up any other socket references
@@ -895,19 +2709,41 @@ io.on("connection", (socket) => {
   });
 });
 
-function endVotingSession() {
-  if (currentVotingSession && currentVotingSession.active) {
+async function endVotingSession() {
+  if (
+    currentVotingSession &&
+    currentVotingSession.active &&
+    currentVotingSession.id !== closingSessionId
+  ) {
+    clearVotingTimer();
+    const session = currentVotingSession;
+
+    // Count every ballot already accepted before the winner is worked out;
+    // no new ones are accepted while closing
+    closingSessionId = session.id;
+    await drainVoteQueue();
+    closingSessionId = null;
+
+    // Reset while the queue drained
+    if (currentVotingSession !== session) return;
+
+    const categoryId = currentVotingSession.categoryId;
+
     currentVotingSession.active = false;
     currentVotingSession.phase = "completed";
     currentVotingSession.endTime = Date.now();
+    delete currentVotingSession.remainingTime;
+    delete currentVotingSession.pausedAt;
 
     // Update category state
-    const categoryState = categories.get(currentVotingSession.categoryId);
-    if (categoryState) {
-      categoryState.status = "completed";
-      categoryState.completedAt = Date.now();
-      categoryState.results = { ...currentVotingSession.results };
-    }
+    finalizeCategoryState(currentVotingSession);
+
+    // Update participant states
+    participants.forEach((participant) => {
+      if (participant.currentCategoryId === categoryId) {
+        participant.viewState = "waiting";
+      }
+    });
 
     // Broadcast end of voting (separate for admin and participants)
     const participantSession = {
@@ -917,60 +2753,152 @@ function endVotingSession() {
     io.to("voting-room").emit("category-stopped", participantSession);
     io.to("admin-room").emit("category-stopped", currentVotingSession);
 
+    persistLiveState();
+
+    // Send updated admin status with all categories
+    sendAdminStatusUpdate();
+  }
+}
+
+// Resolves once every queued ballot has been processed
+async function drainVoteQueue() {
+  while (voteQueue.length > 0 || isProcessingVotes) {
+    if (isProcessingVotes) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    } else {
+      await processVoteQueue();
+    }
+  }
+}
+
+// Process vote queue to handle high concurrency
+async function processVoteQueue() {
+  if (isProcessingVotes || voteQueue.length === 0) return;
+
+  isProcessingVotes = true;
+  connectionStats.activeVotes = voteQueue.length;
+
+  try {
+    // Process votes in batches of 10
+    const batchSize = 10;
+    const batch = voteQueue.splice(0, batchSize);
+
+    console.log(`Processing ${batch.length} votes...`);
+
+    // Sessions whose results changed in this batch
+    const talliedSessions = new Set();
+
+    // Process each vote in the batch
+    for (const vote of batch) {
+      const { categoryId, option, ranking, selections, participantId, previous } =
+        vote;
+
+      // A ballot only counts toward its own category; if that one isn't live
+      // any more (the admin reset or moved on) it is dropped, not miscounted
+      if (!currentVotingSession || currentVotingSession.categoryId !== categoryId) {
+        console.warn(`Dropping queued vote for ${categoryId}: category is no longer live`);
+        continue;
+      }
+      const session = currentVotingSession;
+      talliedSessions.add(session);
+
+      // A changed vote first takes back everything the earlier ballot counted
+      if (previous) {
+        await new Promise((resolve, reject) => {
+          db.run(
+            `DELETE FROM votes WHERE category_id = ? AND participant_id = ?`,
+            [categoryId, participantId],
+            (err) => {
+              if (err) reject(err);
+              else resolve();
+            }
+          );
+        });
+
+        (previous.selections || [previous.option]).forEach((nominee) => {
+          if (session.results[nominee] > 1) {
+            session.results[nominee]--;
+          } else {
+            delete session.results[nominee];
+          }
+        });
+
+        if (previous.ranking) {
+          const ballots = rankedBallots.get(categoryId) || [];
+          const index = ballots.findIndex(
+            (ballot) =>
+              JSON.stringify(ballot) === JSON.stringify(previous.ranking)
+          );
+          if (index > -1) ballots.splice(index, 1);
+        }
+      }
 
-  }
-}
+      // Approval ballots count one point for every approved nominee
+      const points = selections || [option];
 
-// Process vote queue to handle high concurrency
-async function processVoteQueue() {
-  if (isProcessingVotes || voteQueue.length === 0) return;
+      for (const nominee of points) {
+        // Store vote in database
+        await new Promise((resolve, reject) => {
+          db.run(
+            `INSERT INTO votes (category_id, option, participant_id, ranking) VALUES (?, ?, ?, ?)`,
+            [
+              categoryId,
+              nominee,
+              participantId,
+              ranking ? JSON.stringify(ranking) : null,
+            ],
+            (err) => {
+              if (err) reject(err);
+              else resolve();
+            }
+          );
+        });
 
-  isProcessingVotes = true;
-  connectionStats.activeVotes = voteQueue.length;
+        // Update current session results
+        if (!session.results[nominee]) {
+          session.results[nominee] = 0;
+        }
+        session.results[nominee]++;
+      }
 
-  try {
-    // Process votes in batches of 10
-    const batchSize = 10;
-    const batch = voteQueue.splice(0, batchSize);
+      const voteCategoryState = categories.get(getSessionCategoryKey(session));
+      if (voteCategoryState && !previous) {
+        voteCategoryState.ballotCount = (voteCategoryState.ballotCount || 0) + 1;
+      }
 
-    console.log(`Processing ${batch.length} votes...`);
+      if (ranking) {
+        if (!rankedBallots.has(categoryId)) {
+          rankedBallots.set(categoryId, []);
+        }
+        rankedBallots.get(categoryId).push(ranking);
+      }
 
-    // Process each vote in the batch
-    for (const vote of batch) {
-      const { categoryId, option, participantId } = vote;
-
-      // Store vote in database
-      await new Promise((resolve, reject) => {
-        db.run(
-          `INSERT INTO votes (category_id, option, participant_id) VALUES (?, ?, ?)`,
-          [categoryId, option, participantId],
-          (err) => {
-            if (err) reject(err);
-            else resolve();
-          }
+      // New ballots saved their key before being confirmed; changes save it here
+      if (previous) {
+        persistVoteKey(vote).catch((err) =>
+          console.error("Error saving vote key:", err)
         );
-      });
-
-      // Update current session results
-      if (!currentVotingSession.results[option]) {
-        currentVotingSession.results[option] = 0;
       }
-      currentVotingSession.results[option]++;
 
       connectionStats.lastVoteTime = Date.now();
     }
 
-    // Update category vote count
-    const categoryState = categories.get(currentVotingSession.categoryId);
-    if (categoryState) {
-      categoryState.voteCount = Object.values(
-        currentVotingSession.results
-      ).reduce((sum, count) => sum + count, 0);
-      categoryState.results = { ...currentVotingSession.results };
-    }
+    talliedSessions.forEach((session) => {
+      // Update category vote count
+      const categoryState = categories.get(getSessionCategoryKey(session));
+      if (categoryState) {
+        categoryState.voteCount = Object.values(session.results).reduce(
+          (sum, count) => sum + count,
+          0
+        );
+        categoryState.results = { ...session.results };
+      }
+
+      // Broadcast updated results ONLY to admin (participants don't see live results)
+      io.to("admin-room").emit("voting-results", session);
+    });
 
-    // Broadcast updated results ONLY to admin (participants don't see live results)
-    io.to("admin-room").emit("voting-results", currentVotingSession);
+    persistLiveState();
 
     // Send updated admin status to refresh real-time vote counts
     sendAdminStatusUpdate();
@@ -987,13 +2915,15 @@ async function processVoteQueue() {
     // Process remaining votes if any
     if (voteQueue.length > 0) {
       setTimeout(processVoteQueue, 50); // Small delay to prevent blocking
+    } else {
+      closeOnFullTurnout();
     }
   }
 }
 
 // API Routes
-app.get("/api/categories", (req, res) => {
-  db.all(`SELECT * FROM categories ORDER BY created_at`, (err, rows) => {
+app.get("/api/categories", requireAdmin, (req, res) => {
+  db.all(`SELECT * FROM categories ORDER BY sort_order, created_at`, (err, rows) => {
     if (err) {
       res.status(500).json({ error: err.message });
       return;
@@ -1011,6 +2941,8 @@ app.get("/api/categories", (req, res) => {
       return {
         ...category,
         options: category.options ? JSON.parse(category.options) : [],
+        votingMode: category.voting_mode || "plurality",
+        maxSelections: category.max_selections || undefined,
         ...categoryState,
       };
     });
@@ -1019,7 +2951,485 @@ app.get("/api/categories", (req, res) => {
   });
 });
 
-app.get("/api/results/:categoryId", (req, res) => {
+// Categories that have been voted on keep their ballot exactly as it was
+function isCategoryLocked(categoryId) {
+  const categoryState = categories.get(categoryId);
+  return !!categoryState && categoryState.status !== "not-started";
+}
+
+// Title slug, suffixed (-2, -3, ...) until it doesn't clash with a saved category
+async function getUniqueCategoryId(title) {
+  const rows = await dbAll(`SELECT id FROM categories`);
+  const takenIds = new Set(rows.map((row) => row.id));
+  const baseId = getCategorySlug(title);
+
+  let id = baseId;
+  for (let suffix = 2; takenIds.has(id); suffix++) {
+    id = `${baseId}-${suffix}`;
+  }
+  return id;
+}
+
+async function insertCategory(id, category, sortOrder) {
+  await dbRun(
+    `INSERT INTO categories (id, title, description, options, voting_mode, max_selections, sort_order) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    [
+      id,
+      category.title,
+      category.description,
+      JSON.stringify(category.options),
+      category.votingMode,
+      category.maxSelections,
+      sortOrder,
+    ]
+  );
+}
+
+// Category editor: create a category at the end of the list
+app.post("/api/categories", requireAdmin, async (req, res) => {
+  const { error, category } = validateCategoryInput(req.body || {});
+  if (error) {
+    res.status(400).json({ error });
+    return;
+  }
+
+  try {
+    const id = await getUniqueCategoryId(category.title);
+    const { nextOrder } = await dbGet(
+      `SELECT COALESCE(MAX(sort_order), -1) + 1 AS nextOrder FROM categories`
+    );
+    await insertCategory(id, category, nextOrder);
+
+    console.log(`Category created: ${category.title}`);
+    sendAdminStatusUpdate();
+    res.status(201).json({ id, ...category });
+  } catch (err) {
+    console.error("Error creating category:", err);
+    res.status(500).json({ error: "Failed to create category" });
+  }
+});
+
+// Category editor: save the new order (every category ID, first to last)
+app.put("/api/categories/order", requireAdmin, async (req, res) => {
+  const ids = req.body && req.body.ids;
+
+  try {
+    const rows = await dbAll(`SELECT id FROM categories`);
+    const savedIds = new Set(rows.map((row) => row.id));
+    if (
+      !Array.isArray(ids) ||
+      ids.length !== savedIds.size ||
+      new Set(ids).size !== ids.length ||
+      !ids.every((id) => savedIds.has(id))
+    ) {
+      res
+        .status(400)
+        .json({ error: "The new order must list every category exactly once" });
+      return;
+    }
+
+    for (const [index, id] of ids.entries()) {
+      await dbRun(`UPDATE categories SET sort_order = ? WHERE id = ?`, [
+        index,
+        id,
+      ]);
+    }
+
+    sendAdminStatusUpdate();
+    res.json({ ids });
+  } catch (err) {
+    console.error("Error reordering categories:", err);
+    res.status(500).json({ error: "Failed to reorder categories" });
+  }
+});
+
+// Category editor: change title, description or nominees before voting starts
+app.put("/api/categories/:id", requireAdmin, async (req, res) => {
+  const { id } = req.params;
+
+  try {
+    const existing = await dbGet(`SELECT * FROM categories WHERE id = ?`, [id]);
+    if (!existing) {
+      res.status(404).json({ error: "Category not found" });
+      return;
+    }
+
+    if (isCategoryLocked(id)) {
+      res
+        .status(409)
+        .json({ error: "Active or completed categories can't be edited" });
+      return;
+    }
+
+    const body = req.body || {};
+    const { error, category } = validateCategoryInput({
+      title: body.title !== undefined ? body.title : existing.title,
+      description:
+        body.description !== undefined ? body.description : existing.description,
+      options:
+        body.options !== undefined
+          ? body.options
+          : JSON.parse(existing.options || "[]"),
+      votingMode:
+        body.votingMode !== undefined ? body.votingMode : existing.voting_mode,
+      maxSelections:
+        body.maxSelections !== undefined
+          ? body.maxSelections
+          : existing.max_selections,
+    });
+    if (error) {
+      res.status(400).json({ error });
+      return;
+    }
+
+    await dbRun(
+      `UPDATE categories SET title = ?, description = ?, options = ?, voting_mode = ?, max_selections = ? WHERE id = ?`,
+      [
+        category.title,
+        category.description,
+        JSON.stringify(category.options),
+        category.votingMode,
+        category.maxSelections,
+        id,
+      ]
+    );
+
+    console.log(`Category updated: ${category.title}`);
+    sendAdminStatusUpdate();
+    res.json({ id, ...category });
+  } catch (err) {
+    console.error("Error updating category:", err);
+    res.status(500).json({ error: "Failed to update category" });
+  }
+});
+
+// Category editor: copy a category (any status) right after the original
+app.post("/api/categories/:id/duplicate", requireAdmin, async (req, res) => {
+  const { id } = req.params;
+
+  try {
+    const original = await dbGet(`SELECT * FROM categories WHERE id = ?`, [id]);
+    if (!original) {
+      res.status(404).json({ error: "Category not found" });
+      return;
+    }
+
+    const title = `${original.title} (Copy)`.slice(0, MAX_CATEGORY_TITLE_LENGTH);
+    const category = {
+      title,
+      description: original.description,
+      options: JSON.parse(original.options || "[]"),
+      votingMode: original.voting_mode || "plurality",
+      maxSelections: original.max_selections,
+    };
+    const duplicateId = await getUniqueCategoryId(title);
+
+    await dbRun(
+      `UPDATE categories SET sort_order = sort_order + 1 WHERE sort_order > ?`,
+      [original.sort_order]
+    );
+    await insertCategory(duplicateId, category, original.sort_order + 1);
+
+    console.log(`Category duplicated: ${original.title} -> ${title}`);
+    sendAdminStatusUpdate();
+    res.status(201).json({ id: duplicateId, ...category });
+  } catch (err) {
+    console.error("Error duplicating category:", err);
+    res.status(500).json({ error: "Failed to duplicate category" });
+  }
+});
+
+// Category editor: remove a category that hasn't been voted on
+app.delete("/api/categories/:id", requireAdmin, async (req, res) => {
+  const { id } = req.params;
+
+  try {
+    const existing = await dbGet(`SELECT id, title FROM categories WHERE id = ?`, [
+      id,
+    ]);
+    if (!existing) {
+      res.status(404).json({ error: "Category not found" });
+      return;
+    }
+
+    if (isCategoryLocked(id)) {
+      res
+        .status(409)
+        .json({ error: "Active or completed categories can't be deleted" });
+      return;
+    }
+
+    await dbRun(`DELETE FROM categories WHERE id = ?`, [id]);
+
+    console.log(`Category deleted: ${existing.title}`);
+    sendAdminStatusUpdate();
+    res.json({ id });
+  } catch (err) {
+    console.error("Error deleting category:", err);
+    res.status(500).json({ error: "Failed to delete category" });
+  }
+});
+
+// Event import: parse an uploaded definition and compare it with the saved categories
+async function getImportPreview(format, content) {
+  const definition = await parseEventDefinition(content, format);
+  const rows = await dbAll(`SELECT id FROM categories`);
+  const savedIds = new Set(rows.map((row) => row.id));
+
+  return {
+    format,
+    roster: definition.roster,
+    categories: definition.categories.map((category) => ({
+      ...category,
+      exists: savedIds.has(category.id),
+      locked: isCategoryLocked(category.id),
+    })),
+    issues: definition.issues,
+    canImport: !definition.issues.some((issue) => issue.severity === "error"),
+  };
+}
+
+function getImportInputError(body) {
+  if (!["csv", "json"].includes(body.format)) {
+    return "Upload a .csv or .json file";
+  }
+  if (typeof body.content !== "string" || body.content.trim() === "") {
+    return "The uploaded file is empty";
+  }
+  return null;
+}
+
+// Wipe votes, results and the live session ahead of replacing the whole event
+async function clearEventForReplace(newRoster) {
+  await dbRun(`DELETE FROM votes`);
+  await dbRun(`DELETE FROM vote_keys`);
+  await dbRun(`DELETE FROM categories`);
+
+  clearVotingTimer();
+  currentVotingSession = null;
+  setStageView("idle");
+  categories.clear();
+  participantVotes.clear();
+  deviceVotes.clear();
+  inviteVotes.clear();
+  rankedBallots.clear();
+  completedSessions.clear();
+
+  // Invites for names that left the roster stop working
+  invites.forEach((invite) => {
+    if (invite.status !== "revoked" && !newRoster.includes(invite.name)) {
+      revokeInvite(invite);
+    }
+  });
+  sendInvitesUpdate();
+
+  participants.forEach((participant) => {
+    participant.hasVoted = false;
+    participant.currentCategoryId = null;
+    participant.viewState = "waiting";
+  });
+
+  // People whose names left the roster have to pick again
+  for (const [participantId, claim] of Array.from(identityClaims.entries())) {
+    if (newRoster.includes(claim.name)) continue;
+
+    identityClaims.delete(participantId);
+    await dbRun(`UPDATE participants SET name = NULL WHERE id = ?`, [
+      participantId,
+    ]);
+    const participant = participants.get(participantId);
+    if (participant) {
+      io.to(participant.socketId).emit("identity-status", {
+        status: "unclaimed",
+      });
+    }
+  }
+}
+
+app.post("/api/import/preview", requireAdmin, async (req, res) => {
+  const body = req.body || {};
+  const inputError = getImportInputError(body);
+  if (inputError) {
+    res.status(400).json({ error: inputError });
+    return;
+  }
+
+  try {
+    res.json(await getImportPreview(body.format, body.content));
+  } catch (err) {
+    console.error("Error previewing import:", err);
+    res.status(500).json({ error: "Failed to preview import" });
+  }
+});
+
+// Apply an event definition: "merge" adds new categories and updates ones
+// nobody has voted on yet; "replace" swaps out the whole event
+app.post("/api/import", requireAdmin, async (req, res) => {
+  const body = req.body || {};
+  const inputError = getImportInputError(body);
+  if (inputError) {
+    res.status(400).json({ error: inputError });
+    return;
+  }
+  if (!["merge", "replace"].includes(body.mode)) {
+    res.status(400).json({ error: "Choose whether to merge or replace" });
+    return;
+  }
+  if (body.mode === "replace" && currentVotingSession && currentVotingSession.active) {
+    res
+      .status(409)
+      .json({ error: "Stop the live category before replacing the event" });
+    return;
+  }
+
+  try {
+    const preview = await getImportPreview(body.format, body.content);
+    if (!preview.canImport) {
+      res
+        .status(400)
+        .json({ error: "Fix the errors in the preview before importing" });
+      return;
+    }
+
+    const result = { mode: body.mode, added: [], updated: [], skipped: [] };
+
+    if (body.mode === "replace") {
+      await clearEventForReplace(preview.roster);
+      roster = preview.roster;
+
+      for (const [index, category] of preview.categories.entries()) {
+        await insertCategory(category.id, category, index);
+        result.added.push(category.title);
+      }
+    } else {
+      roster = Array.from(new Set([...roster, ...preview.roster]));
+
+      let { nextOrder } = await dbGet(
+        `SELECT COALESCE(MAX(sort_order), -1) + 1 AS nextOrder FROM categories`
+      );
+      for (const category of preview.categories) {
+        if (category.locked) {
+          result.skipped.push(category.title);
+        } else if (category.exists) {
+          await dbRun(
+            `UPDATE categories SET title = ?, description = ?, options = ?, voting_mode = ?, max_selections = ? WHERE id = ?`,
+            [
+              category.title,
+              category.description,
+              JSON.stringify(category.options),
+              category.votingMode,
+              category.maxSelections,
+              category.id,
+            ]
+          );
+          result.updated.push(category.title);
+        } else {
+          await insertCategory(category.id, category, nextOrder++);
+          result.added.push(category.title);
+        }
+      }
+    }
+
+    console.log(
+      `Event import (${body.mode}): ${result.added.length} added, ${result.updated.length} updated, ${result.skipped.length} skipped`
+    );
+
+    persistLiveState();
+    sendAdminStatusUpdate();
+    io.to("voting-room").emit("roster", getRosterUpdate());
+    io.to("admin-room").emit("identity-claims", getIdentityClaimsUpdate());
+
+    res.json({ ...result, rosterSize: roster.length });
+  } catch (err) {
+    console.error("Error importing event:", err);
+    res.status(500).json({ error: "Failed to import event" });
+  }
+});
+
+// Voter invites: one single-use link per roster member
+app.get("/api/invites", requireAdmin, (req, res) => {
+  res.json(getInvitesUpdate());
+});
+
+// Issue an invite to every roster member who doesn't hold a usable one
+app.post("/api/invites", requireAdmin, (req, res) => {
+  if (roster.length === 0) {
+    res.status(400).json({ error: "Add a roster before generating invites" });
+    return;
+  }
+
+  const covered = new Set(
+    Array.from(invites.values())
+      .filter((invite) => invite.status !== "revoked")
+      .map((invite) => invite.name)
+  );
+  roster
+    .filter((name) => !covered.has(name))
+    .forEach((name) => {
+      const invite = {
+        token: createInviteToken(),
+        name,
+        status: "unused",
+        createdAt: Date.now(),
+      };
+      invites.set(invite.token, invite);
+      persistInvite(invite);
+    });
+
+  sendInvitesUpdate();
+  res.json(getInvitesUpdate());
+});
+
+app.post("/api/invites/:token/revoke", requireAdmin, (req, res) => {
+  const invite = invites.get(req.params.token);
+  if (!invite) {
+    res.status(404).json({ error: "Invite not found" });
+    return;
+  }
+  if (invite.status === "revoked") {
+    res.status(400).json({ error: "This invite has already been revoked" });
+    return;
+  }
+
+  revokeInvite(invite);
+  sendInvitesUpdate();
+  res.json(getInvitesUpdate());
+});
+
+// Invite-only voting: devices without a usable invite can no longer join or vote
+app.put("/api/invites/mode", requireAdmin, (req, res) => {
+  const { enabled } = req.body || {};
+  if (typeof enabled !== "boolean") {
+    res.status(400).json({ error: "enabled must be true or false" });
+    return;
+  }
+  if (
+    enabled &&
+    !Array.from(invites.values()).some((invite) => invite.status !== "revoked")
+  ) {
+    res
+      .status(400)
+      .json({ error: "Generate invites before switching to invite-only voting" });
+    return;
+  }
+
+  inviteMode = enabled;
+  persistLiveState();
+
+  // Participants already here without an invite are asked for their link
+  if (inviteMode) {
+    io.sockets.sockets.forEach((socket) => {
+      if (socket.participantId && !getUsableInvite(socket.inviteToken)) {
+        socket.emit("invite-error", { code: "invite-required" });
+      }
+    });
+  }
+
+  sendInvitesUpdate();
+  res.json(getInvitesUpdate());
+});
+
+app.get("/api/results/:categoryId", requireAdmin, (req, res) => {
   const { categoryId } = req.params;
   db.all(
     `SELECT option, COUNT(*) as count FROM votes WHERE category_id = ? GROUP BY option`,
@@ -1034,7 +3444,7 @@ app.get("/api/results/:categoryId", (req, res) => {
   );
 });
 
-app.get("/api/completed-categories", (req, res) => {
+app.get("/api/completed-categories", requireAdmin, (req, res) => {
   // Get all categories that have votes
   db.all(`SELECT DISTINCT category_id FROM votes`, (err, categoryRows) => {
     if (err) {
@@ -1090,15 +3500,15 @@ app.get("/api/completed-categories", (req, res) => {
   });
 });
 
-app.get("/api/participants", (req, res) => {
+app.get("/api/participants", requireAdmin, (req, res) => {
   res.json(Array.from(participants.values()));
 });
 
 // Get current session state
-app.get("/api/session", (req, res) => {
+app.get("/api/session", requireAdmin, (req, res) => {
   res.json({
     currentSession: currentVotingSession,
-    participantCount: participants.size,
+    participantCount: getConnectedCount(),
     categories: Array.from(categories.entries()).map(([id, state]) => ({
       id,
       ...state,
@@ -1107,7 +3517,7 @@ app.get("/api/session", (req, res) => {
 });
 
 // Monitoring endpoint for connection stats
-app.get("/api/stats", (req, res) => {
+app.get("/api/stats", requireAdmin, (req, res) => {
   res.json({
     currentConnections: io.engine.clientsCount,
     peakConnections: connectionStats.peakConnections,
@@ -1116,7 +3526,8 @@ app.get("/api/stats", (req, res) => {
     voteQueueLength: voteQueue.length,
     isProcessingVotes: isProcessingVotes,
     lastVoteTime: connectionStats.lastVoteTime,
-    participantsCount: participants.size,
+    participantsCount: getConnectedCount(),
+    participantsJoined: participants.size,
     currentSession: currentVotingSession
       ? {
         active: currentVotingSession.active,
@@ -1138,7 +3549,7 @@ app.get("/api/stats", (req, res) => {
 });
 
 // Reset database endpoint
-app.post("/api/reset", (req, res) => {
+app.post("/api/reset", requireAdmin, (req, res) => {
   try {
     // Clear all votes
     db.run(`DELETE FROM votes`, (err) => {
@@ -1165,11 +3576,36 @@ app.post("/api/reset", (req, res) => {
           }
 
           // Reset current voting session and state
+          clearVotingTimer();
           currentVotingSession = null;
+          setStageView("idle");
 
           participants.clear();
           categories.clear();
           participantVotes.clear();
+          deviceVotes.clear();
+          inviteVotes.clear();
+          rankedBallots.clear();
+          completedSessions.clear();
+          identityClaims.clear();
+          invites.clear();
+          inviteMode = false;
+          roster = []; // Reloaded from awards.csv below
+
+          // Saved live state would otherwise resurrect the old event on restart
+          persistLiveState();
+          sendPresenceUpdate();
+          db.run(`DELETE FROM vote_keys`, (err) => {
+            if (err) {
+              console.error("Error clearing vote keys:", err);
+            }
+          });
+          db.run(`DELETE FROM invites`, (err) => {
+            if (err) {
+              console.error("Error clearing invites:", err);
+            }
+          });
+          sendInvitesUpdate();
 
           // Reload awards from CSV to restore initial state
           loadAwardsFromCSV();
@@ -1185,6 +3621,307 @@ app.post("/api/reset", (req, res) => {
   }
 });
 
+function toIsoTime(timestamp) {
+  return timestamp ? new Date(timestamp).toISOString() : null;
+}
+
+// Final results of every closed category; unrevealed ones only on request
+async function getResultsExport(includeUnrevealed) {
+  const rows = await dbAll(
+    `SELECT * FROM categories ORDER BY sort_order, created_at`
+  );
+
+  const exported = rows
+    .map((row) => ({ row, categoryState: categories.get(row.id) }))
+    .filter(
+      ({ categoryState }) =>
+        categoryState &&
+        (categoryState.status === "revealed" ||
+          (includeUnrevealed && categoryState.status === "completed"))
+    )
+    .map(({ row, categoryState }) => {
+      const results = categoryState.results || {};
+      const totalVotes = Object.values(results).reduce(
+        (sum, count) => sum + count,
+        0
+      );
+      const isApproval = categoryState.votingMode === "approval";
+      // Approval percentages are the share of voters who picked each nominee
+      const percentageBase = isApproval
+        ? categoryState.ballotCount || 0
+        : totalVotes;
+      const { winner, isTie } =
+        totalVotes > 0
+          ? getCategoryOutcome(categoryState)
+          : { winner: [], isTie: false };
+
+      const sortedResults = Object.entries(results).sort((a, b) => b[1] - a[1]);
+      return {
+        id: row.id,
+        title: row.title,
+        description: row.description,
+        votingMode: categoryState.votingMode || "plurality",
+        revealed: !!categoryState.revealed,
+        winners: [].concat(winner).filter(Boolean),
+        isTie,
+        totalVotes,
+        ballotCount: categoryState.ballotCount || 0,
+        startedAt: toIsoTime(categoryState.startedAt),
+        stoppedAt: toIsoTime(categoryState.completedAt),
+        revealedAt: toIsoTime(categoryState.revealedAt),
+        results: sortedResults.map(([nominee, votes]) => ({
+          // Tied nominees share a rank (1, 1, 3)
+          rank: sortedResults.findIndex(([, count]) => count === votes) + 1,
+          nominee,
+          votes,
+          percentage: calculatePercentage(votes, percentageBase),
+        })),
+        runoffs: (categoryState.history || []).filter(
+          (round) => round.type === "runoff"
+        ).length,
+      };
+    });
+
+  return {
+    exportedAt: new Date().toISOString(),
+    includesUnrevealed: includeUnrevealed,
+    categories: exported,
+  };
+}
+
+function escapeCsvCell(value) {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One row per nominee so the file opens cleanly in a spreadsheet
+function formatResultsCsv(report) {
+  const header = [
+    "Category ID",
+    "Category",
+    "Voting Mode",
+    "Revealed",
+    "Rank",
+    "Nominee",
+    "Votes",
+    "Percentage",
+    "Winner",
+    "Tie",
+    "Total Votes",
+    "Voters",
+    "Started At",
+    "Stopped At",
+    "Revealed At",
+  ];
+
+  const lines = [header];
+  report.categories.forEach((category) => {
+    const nomineeRows =
+      category.results.length > 0
+        ? category.results
+        : [{ rank: "", nominee: "", votes: 0, percentage: 0 }];
+
+    nomineeRows.forEach((result) => {
+      lines.push([
+        category.id,
+        category.title,
+        category.votingMode,
+        category.revealed ? "yes" : "no",
+        result.rank,
+        result.nominee,
+        result.votes,
+        result.percentage,
+        category.winners.includes(result.nominee) ? "yes" : "no",
+        category.isTie ? "yes" : "no",
+        category.totalVotes,
+        category.ballotCount,
+        category.startedAt,
+        category.stoppedAt,
+        category.revealedAt,
+      ]);
+    });
+  });
+
+  return lines.map((line) => line.map(escapeCsvCell).join(",")).join("\r\n");
+}
+
+function escapeHtml(value) {
+  return String(value === null || value === undefined ? "" : value)
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function formatTimestamp(isoTime) {
+  return isoTime ? new Date(isoTime).toLocaleString() : "—";
+}
+
+// Print-ready report: one award per page
+function formatResultsHtml(report) {
+  const sections = report.categories
+    .map((category) => {
+      const winnerLine =
+        category.winners.length === 0
+          ? "No votes cast"
+          : `${category.isTie ? "Tie: " : ""}${category.winners
+            .map(escapeHtml)
+            .join(" &amp; ")}`;
+
+      const resultRows = category.results
+        .map(
+          (result) => `
+          <tr class="${category.winners.includes(result.nominee) ? "winner" : ""}">
+            <td>${result.rank}</td>
+            <td>${escapeHtml(result.nominee)}</td>
+            <td>${result.votes}</td>
+            <td>${result.percentage}%</td>
+          </tr>`
+        )
+        .join("");
+
+      return `
+      <section class="award">
+        <p class="eyebrow">${escapeHtml(category.votingMode)}${category.revealed ? "" : " · not revealed yet"}</p>
+        <h1>${escapeHtml(category.title)}</h1>
+        <p class="description">${escapeHtml(category.description)}</p>
+        <p class="winner">${winnerLine}</p>
+        <table>
+          <thead><tr><th>Rank</th><th>Nominee</th><th>Votes</th><th>Share</th></tr></thead>
+          <tbody>${resultRows}</tbody>
+        </table>
+        <dl>
+          <dt>Total votes</dt><dd>${category.totalVotes}</dd>
+          <dt>Voters</dt><dd>${category.ballotCount}</dd>
+          <dt>Tie-break runoffs</dt><dd>${category.runoffs}</dd>
+          <dt>Started</dt><dd>${formatTimestamp(category.startedAt)}</dd>
+          <dt>Stopped</dt><dd>${formatTimestamp(category.stoppedAt)}</dd>
+          <dt>Revealed</dt><dd>${formatTimestamp(category.revealedAt)}</dd>
+        </dl>
+      </section>`;
+    })
+    .join("");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <title>Award Results</title>
+  <style>
+    body { font-family: system-ui, sans-serif; color: #4c4c4c; margin: 0; }
+    .award { padding: 48px; break-after: page; page-break-after: always; }
+    .award:last-child { break-after: auto; page-break-after: auto; }
+    .eyebrow { text-transform: uppercase; letter-spacing: 0.1em; font-size: 12px; color: #7ebd41; font-weight: 700; }
+    h1 { font-size: 36px; margin: 8px 0; }
+    .description { color: #6b7280; }
+    .winner { font-size: 24px; font-weight: 700; color: #7ebd41; margin: 24px 0; }
+    table { width: 100%; border-collapse: collapse; margin-bottom: 24px; }
+    th, td { text-align: left; padding: 8px; border-bottom: 1px solid #e5e7eb; }
+    tr.winner td { font-weight: 700; }
+    dl { display: grid; grid-template-columns: max-content 1fr; gap: 4px 16px; font-size: 14px; }
+    dt { color: #9ca3af; }
+    dd { margin: 0; }
+    @media print { .award { padding: 0; } }
+  </style>
+</head>
+<body>${sections || "<p class=\"award\">No categories to export yet.</p>"}
+</body>
+</html>`;
+}
+
+// Results export for the admin dashboard (format: csv, json or html)
+app.get("/api/export", requireAdmin, async (req, res) => {
+  const format = req.query.format || "json";
+  if (!["csv", "json", "html"].includes(format)) {
+    res.status(400).json({ error: "Export format must be csv, json or html" });
+    return;
+  }
+
+  try {
+    const report = await getResultsExport(req.query.includeUnrevealed === "true");
+    if (report.categories.length === 0) {
+      res.status(404).json({
+        error: report.includesUnrevealed
+          ? "No completed categories to export yet"
+          : "No revealed categories to export yet",
+      });
+      return;
+    }
+
+    if (format === "csv") {
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", 'attachment; filename="results.csv"');
+      res.send(formatResultsCsv(report));
+    } else if (format === "html") {
+      res.setHeader("Content-Type", "text/html; charset=utf-8");
+      res.send(formatResultsHtml(report));
+    } else {
+      res.setHeader("Content-Disposition", 'attachment; filename="results.json"');
+      res.json(report);
+    }
+  } catch (error) {
+    console.error("Error exporting results:", error);
+    res.status(500).json({ error: "Failed to export results" });
+  }
+});
+
+// Applied and pending database migrations
+app.get("/api/schema-version", requireAdmin, async (req, res) => {
+  try {
+    res.json(await getSchemaStatus(db));
+  } catch (error) {
+    console.error("Error reading schema version:", error);
+    res.status(500).json({ error: "Failed to read schema version" });
+  }
+});
+
+// Exchange the admin username and password for a signed session token
+app.post("/api/admin/login", (req, res) => {
+  const { username, password } = req.body || {};
+
+  if (!ADMIN_PASSWORD_HASH) {
+    res.status(503).json({
+      error: "Admin login is disabled until ADMIN_PASSWORD_HASH is configured",
+    });
+    return;
+  }
+
+  if (
+    typeof username !== "string" ||
+    typeof password !== "string" ||
+    username !== ADMIN_USERNAME ||
+    !verifyPassword(password, ADMIN_PASSWORD_HASH)
+  ) {
+    res.status(401).json({ error: "Invalid username or password" });
+    return;
+  }
+
+  const session = {
+    id: uuidv4(),
+    username,
+    expiresAt: Date.now() + ADMIN_SESSION_MS,
+  };
+  res.json({
+    token: createSessionToken(session, ADMIN_TOKEN_SECRET),
+    expiresAt: session.expiresAt,
+  });
+});
+
+// Check a stored token on page load
+app.get("/api/admin/session", requireAdmin, (req, res) => {
+  res.json({
+    username: req.adminSession.username,
+    expiresAt: req.adminSession.expiresAt,
+  });
+});
+
+// Sign out: the token stops working everywhere, including other open tabs
+app.post("/api/admin/logout", requireAdmin, (req, res) => {
+  revokeAdminSession(req.adminSession);
+  endAdminSockets(req.adminSession.id, "logged-out");
+  res.json({ success: true });
+});
+
 // Server info endpoint for dynamic IP detection
 app.get("/api/server-info", (req, res) => {
   const localIp = getLocalIpAddress();
@@ -1,12 +1,37 @@
 // Component prop interfaces and utility types
 
-import { AnimationState, VotingSession, VoterState, Category } from "./voting";
+import {
+  AnimationState,
+  VotingSession,
+  VoterState,
+  Category,
+  RunoffRound,
+  VotingMode,
+  CategoryRound,
+  IdentityStatus,
+  CategoryDraft,
+  EventImportPreview,
+  EventImportMode,
+  EventImportResult,
+  RevealPlacing,
+  InvitesUpdate,
+  TurnoutUpdate,
+  VoteSubmissionStatus,
+} from "./voting";
 
 // Confirmation Modal Component Props
 export interface ConfirmationModalProps {
   isOpen: boolean;
   nominee: string;
   categoryTitle: string;
+  ranking?: string[]; // Full preference order for ranked categories
+  selections?: string[]; // Every pick for approval categories
+  // Wording overrides so the dialog can confirm admin actions too
+  title?: string;
+  description?: string;
+  subjectLabel?: string;
+  confirmLabel?: string;
+  footnote?: string;
   onConfirm: () => void;
   onCancel: () => void;
 }
@@ -31,11 +56,13 @@ export interface WaitingStateProps {
   | "between-categories"
   | "session-complete"
   | "waiting-for-results"
+  | "voting-paused"
   | "voted";
   participantCount?: number;
   nextCategoryTitle?: string;
   connectionStatus?: "connected" | "disconnected" | "reconnecting";
   isReconnecting?: boolean;
+  onChangeVote?: () => void; // Offered while the voted category is still open
 }
 
 // Category Controller Component Props (Admin)
@@ -57,8 +84,82 @@ export interface ResultsRevealProps {
     results?: Record<string, number>;
     completed: boolean;
     revealed?: boolean;
+    revealedAt?: number; // Dated on the winner's certificate
+    votingMode?: VotingMode;
+    winner?: string | string[];
+    rounds?: RunoffRound[];
+    maxSelections?: number;
+    ballotCount?: number;
+    history?: CategoryRound[];
+    revealSteps?: RevealPlacing[]; // Runner-up places fixed by a staged reveal
+    revealedPlaces?: RevealPlacing[]; // Of those, the ones already shown
   }>;
   onRevealWinner: (categoryId: string) => void;
+  onRevealRunnerUp?: (categoryId: string, places: number) => void;
+  onLaunchRunoff?: (categoryId: string) => void;
+  onUnrevealWinner?: (categoryId: string) => void;
+  canLaunchRunoff?: boolean; // False while another category is live
+}
+
+// Category Editor Component Props (admin create/edit form)
+export interface CategoryEditorProps {
+  isOpen: boolean;
+  initialValues?: CategoryDraft | null; // Omitted when creating a new category
+  onSave: (draft: CategoryDraft) => Promise<void>; // Rejects with the server's message
+  onCancel: () => void;
+}
+
+// Participant connection banner: status, latency and ballots waiting to send
+export interface ConnectionBannerProps {
+  status: "connected" | "disconnected" | "reconnecting" | "error";
+  latency: number | null;
+  queuedVotes: number;
+  reconnectAttempts?: number;
+  isOnline?: boolean; // The browser's own network status
+  voteStatus?: VoteSubmissionStatus; // The live category's ballot, if one was cast here
+  recordedAt?: number; // From the ballot's receipt
+  floating?: boolean; // Pinned to the top over full-screen views
+  onReconnect?: () => void;
+}
+
+// Voter invite panel on the admin dashboard
+export interface InviteManagerProps {
+  invites: InvitesUpdate;
+  participantUrl: string;
+  onGenerate: () => Promise<void>;
+  onRevoke: (token: string) => Promise<void>;
+  onToggleMode: (enabled: boolean) => Promise<void>;
+}
+
+// Live turnout panel on the admin dashboard
+export interface TurnoutTrackerProps {
+  turnout: TurnoutUpdate;
+  onToggleAutoClose: (enabled: boolean) => void;
+}
+
+// Event Import Component Props (admin CSV/JSON upload)
+export interface EventImportProps {
+  isOpen: boolean;
+  onPreview: (
+    content: string,
+    format: EventImportPreview["format"]
+  ) => Promise<EventImportPreview>;
+  onImport: (
+    content: string,
+    format: EventImportPreview["format"],
+    mode: EventImportMode
+  ) => Promise<EventImportResult>;
+  onClose: () => void;
+}
+
+// Identity Claim Component Props (Participant "who are you?" step)
+export interface IdentityClaimProps {
+  roster: string[];
+  takenNames: string[]; // Names already claimed by someone else
+  status: IdentityStatus;
+  claimedName?: string;
+  error?: string;
+  onClaim: (name: string) => void;
 }
 
 // Connection Status Component Props
@@ -1,6 +1,7 @@
 // Constants for voting UX redesign
 
-import { WaitingStateMessages } from "./voting";
+import { WaitingStateMessages, VoteErrorCode } from "./voting";
+import * as ballotRules from "../backend/ballotRules";
 
 // Waiting state messages for participants
 export const WAITING_MESSAGES: WaitingStateMessages = {
@@ -9,6 +10,7 @@ export const WAITING_MESSAGES: WaitingStateMessages = {
   sessionComplete:
     "All voting has been completed. Thank you for participating!",
   votingActive: "Cast your vote below",
+  votingPaused: "Voting is paused. Your picks are safe until it resumes",
   voteSubmitted: "Vote submitted! Waiting for other participants...",
 };
 
@@ -44,17 +46,44 @@ export const SOCKET_EVENTS = {
   SUBMIT_VOTE: "submit-vote",
   START_CATEGORY: "start-category",
   STOP_CATEGORY: "stop-category",
+  PAUSE_CATEGORY: "pause-category",
+  RESUME_CATEGORY: "resume-category",
   REVEAL_WINNER: "reveal-winner",
+  UNREVEAL_CATEGORY: "unreveal-category",
+  REOPEN_CATEGORY: "reopen-category",
+  START_RUNOFF: "start-runoff",
+  REVEAL_RUNNER_UP: "reveal-runner-up",
+  JOIN_STAGE: "join-stage",
+  SET_STAGE_SCREEN: "set-stage-screen",
+  SET_AUTO_CLOSE: "set-auto-close",
+  CLAIM_IDENTITY: "claim-identity",
+  HEARTBEAT: "ping",
+  RESOLVE_IDENTITY_CLAIM: "resolve-identity-claim",
 
   // Server to client
+  SERVER_TIME: "server-time",
   PARTICIPANT_INFO: "participant-info",
   VOTING_SESSION_UPDATE: "voting-session-update",
   CATEGORY_STARTED: "category-started",
   CATEGORY_STOPPED: "category-stopped",
+  CATEGORY_PAUSED: "category-paused",
+  CATEGORY_RESUMED: "category-resumed",
+  CATEGORY_REOPENED: "category-reopened",
   WINNER_REVEALED: "winner-revealed",
+  WINNER_HIDDEN: "winner-hidden",
+  RUNNER_UP_REVEALED: "runner-up-revealed",
   VOTE_CONFIRMED: "vote-confirmed",
+  VOTE_ERROR: "vote-error",
+  INVITES_UPDATE: "invites-update",
+  INVITE_ERROR: "invite-error",
   PARTICIPANT_COUNT: "participant-count",
+  PRESENCE_UPDATE: "presence-update",
+  STAGE_UPDATE: "stage-update",
+  TURNOUT_UPDATE: "turnout-update",
   ADMIN_STATUS: "admin-status",
+  ROSTER: "roster",
+  IDENTITY_STATUS: "identity-status",
+  IDENTITY_CLAIMS: "identity-claims",
   ERROR: "error",
 
   // Legacy events (for backward compatibility)
@@ -77,10 +106,26 @@ export const CATEGORY_STATUS = {
 export const SESSION_PHASES = {
   WAITING: "waiting",
   VOTING: "voting",
+  PAUSED: "paused",
   COMPLETED: "completed",
   REVEALED: "revealed",
 } as const;
 
+// Voting modes
+export const VOTING_MODES = {
+  PLURALITY: "plurality",
+  RANKED: "ranked",
+  APPROVAL: "approval",
+} as const;
+
+// Default number of nominees a participant may approve
+export const DEFAULT_MAX_SELECTIONS: number = ballotRules.DEFAULT_MAX_SELECTIONS;
+
+// What participants see for each rejected ballot ("too-many-selections" names the limit).
+// Kept with the backend's ballot rules so both sides send the same wording
+export const VOTE_ERROR_MESSAGES: Record<VoteErrorCode, string> =
+  ballotRules.VOTE_ERROR_MESSAGES;
+
 // Participant view states
 export const VIEW_STATES = {
   WAITING: "waiting",
@@ -107,12 +152,25 @@ export const ADMIN_PHASES = {
 // Default voting session duration (in seconds)
 export const DEFAULT_VOTING_DURATION = 30;
 
+// Countdown turns into a warning for the final seconds
+export const COUNTDOWN_WARNING_SECONDS = 10;
+
+// Suspense on every screen before a revealed winner shows (in milliseconds)
+export const REVEAL_SUSPENSE_MS = 3000;
+
+// Runner-up places the admin can step through before revealing a winner
+export const DEFAULT_RUNNER_UP_PLACES = 2;
+export const MAX_RUNNER_UP_PLACES = 2;
+
 // Maximum number of reconnection attempts
 export const MAX_RECONNECTION_ATTEMPTS = 5;
 
 // Reconnection delay (in milliseconds)
 export const RECONNECTION_DELAY = 1000;
 
+// Participant heartbeat interval (in milliseconds); two missed beats mark them away
+export const HEARTBEAT_INTERVAL_MS = 30000;
+
 // Search debounce delay (in milliseconds)
 export const SEARCH_DEBOUNCE_DELAY = 300;
 
@@ -12,6 +12,35 @@ export type {
   AdminDashboardState,
   ParticipantDashboardState,
   AnimationState,
+  VotingMode,
+  RunoffRound,
+  CategoryRound,
+  IdentityStatus,
+  IdentityClaim,
+  CategoryDraft,
+  ImportIssue,
+  ImportedCategory,
+  EventImportPreview,
+  EventImportMode,
+  EventImportResult,
+  VoteErrorCode,
+  VoteError,
+  VoteReceipt,
+  VoteAck,
+  VoteSubmissionStatus,
+  InviteStatus,
+  VoterInvite,
+  InvitesUpdate,
+  InviteErrorCode,
+  RevealPlacing,
+  RunnerUpReveal,
+  StageScreen,
+  StageState,
+  TurnoutUpdate,
+  PresenceStatus,
+  PresenceUpdate,
+  SchemaMigration,
+  SchemaStatus,
 } from "./voting";
 
 // Component prop types
@@ -21,6 +50,12 @@ export type {
   WaitingStateProps,
   CategoryControllerProps,
   ResultsRevealProps,
+  IdentityClaimProps,
+  CategoryEditorProps,
+  EventImportProps,
+  ConnectionBannerProps,
+  InviteManagerProps,
+  TurnoutTrackerProps,
   ConnectionStatusProps,
   VoteStatusProps,
   AdminStatsProps,
@@ -53,11 +88,16 @@ export {
   CONNECTION_STATUS,
   ADMIN_PHASES,
   DEFAULT_VOTING_DURATION,
+  COUNTDOWN_WARNING_SECONDS,
   MAX_RECONNECTION_ATTEMPTS,
   RECONNECTION_DELAY,
+  HEARTBEAT_INTERVAL_MS,
   SEARCH_DEBOUNCE_DELAY,
   MAX_CHART_RESULTS,
   MIN_VOTES_FOR_PERCENTAGES,
+  VOTING_MODES,
+  DEFAULT_MAX_SELECTIONS,
+  VOTE_ERROR_MESSAGES,
 } from "./constants";
 
 // Utility functions and type guards
@@ -70,6 +110,7 @@ export {
   calculatePercentage,
   getTotalVotes,
   getTopResults,
+  formatPlace,
   canStartVoting,
   canStopVoting,
   canRevealWinner,
@@ -82,7 +123,11 @@ export {
   formatTime,
   formatDuration,
   validateVote,
+  validateRanking,
+  validateSelections,
   validateCategoryId,
+  validateBallot,
+  getVoteErrorMessage,
   filterNominees,
   highlightSearchMatch,
 } from "./utils";
@@ -1,7 +1,19 @@
 // Utility types and type guards for voting UX redesign
 
-import { VotingSession, VoterState, Category, CategoryResult } from "./voting";
-import { CATEGORY_STATUS, SESSION_PHASES, VIEW_STATES } from "./constants";
+import {
+  VotingSession,
+  VoterState,
+  Category,
+  CategoryResult,
+  VoteError,
+} from "./voting";
+import {
+  CATEGORY_STATUS,
+  SESSION_PHASES,
+  VIEW_STATES,
+  VOTE_ERROR_MESSAGES,
+} from "./constants";
+import * as ballotRules from "../backend/ballotRules";
 
 // Type guards for runtime type checking
 export function isVotingSession(obj: any): obj is VotingSession {
@@ -95,9 +107,12 @@ export function getTotalVotes(results: Record<string, number>): number {
   return Object.values(results).reduce((sum, votes) => sum + votes, 0);
 }
 
+// Pass ballotCount for approval categories so percentages are approval rates
+// (share of voters who picked the nominee) rather than shares of all picks
 export function getTopResults(
   results: Record<string, number>,
-  maxResults: number = 3
+  maxResults: number = 3,
+  ballotCount?: number
 ): Array<{
   position: number;
   name: string;
@@ -109,7 +124,8 @@ export function getTopResults(
 
   const entries = Object.entries(results);
   const sortedEntries = entries.sort((a, b) => b[1] - a[1]);
-  const totalVotes = getTotalVotes(results);
+  const totalVotes =
+    ballotCount !== undefined ? ballotCount : getTotalVotes(results);
 
   const uniqueVoteCounts = Array.from(
     new Set(sortedEntries.map(([_, votes]) => votes))
@@ -153,6 +169,16 @@ export function getTopResults(
   return topResults;
 }
 
+// "1st Place", "2nd Place", "3rd Place", ...
+export function formatPlace(position: number): string {
+  const lastTwo = position % 100;
+  const suffix =
+    lastTwo >= 11 && lastTwo <= 13
+      ? "th"
+      : ["th", "st", "nd", "rd"][position % 10] || "th";
+  return `${position}${suffix} Place`;
+}
+
 // Session state helpers
 export function canStartVoting(category: Category): boolean {
   return category.status === CATEGORY_STATUS.NOT_STARTED;
@@ -233,16 +259,47 @@ export function formatDuration(milliseconds: number): string {
   return formatTime(seconds);
 }
 
-// Validation utilities
-export function validateVote(nominee: string, options: string[]): boolean {
-  return nominee.trim() !== "" && options.includes(nominee);
-}
+// Validation utilities: the backend's ballot rules (backend/ballotRules.js),
+// typed here so the participant page checks a ballot exactly as the server will
+export const validateVote: (nominee: string, options: string[]) => boolean =
+  ballotRules.validateVote;
+
+export const validateRanking: (
+  ranking: string[],
+  options: string[]
+) => boolean = ballotRules.validateRanking;
 
-export function validateCategoryId(
+export const validateSelections: (
+  selections: string[],
+  options: string[],
+  maxSelections: number
+) => boolean = ballotRules.validateSelections;
+
+export const validateCategoryId: (
   categoryId: string,
-  categories: Category[]
-): boolean {
-  return categories.some((category) => category.id === categoryId);
+  categories: Pick<Category, "id">[]
+) => boolean = ballotRules.validateCategoryId;
+
+/**
+ * Check a submit-vote/change-vote payload against the open session; null when
+ * the ballot is acceptable
+ */
+export const validateBallot: (
+  ballot: any,
+  session:
+    | (Pick<VotingSession, "categoryId" | "options"> &
+        Partial<Pick<VotingSession, "votingMode" | "maxSelections">>)
+    | null
+) => VoteError | null = ballotRules.validateBallot;
+
+/**
+ * Participant-facing wording for a rejected ballot
+ */
+export function getVoteErrorMessage(error: VoteError): string {
+  if (error.code === "too-many-selections" && error.maxSelections) {
+    return `You can pick up to ${error.maxSelections} nominees`;
+  }
+  return VOTE_ERROR_MESSAGES[error.code] || error.message;
 }
 
 // Search utilities
@@ -1,5 +1,8 @@
 // Enhanced data models and interfaces for voting UX redesign
 
+// How ballots are cast and tallied for a category
+export type VotingMode = "plurality" | "ranked" | "approval";
+
 // Enhanced VotingSession interface with new phase and control fields
 export interface VotingSession {
   id: string;
@@ -8,12 +11,19 @@ export interface VotingSession {
   description: string;
   active: boolean;
   startTime: number;
-  endTime: number;
+  endTime: number; // Server clock time the countdown runs out
+  duration?: number; // Countdown length in seconds
   results: Record<string, number>;
   options: string[];
   // New fields for enhanced UX
-  phase: "waiting" | "voting" | "completed" | "revealed";
+  phase: "waiting" | "voting" | "paused" | "completed" | "revealed";
   adminControlled: boolean;
+  remainingTime?: number; // Countdown milliseconds left while paused (endTime is null)
+  votingMode: VotingMode;
+  maxSelections?: number; // Approval mode pick limit
+  // Tie-break runoffs vote under their own ID but report into the parent
+  parentCategoryId?: string;
+  runoffRound?: number;
 }
 
 // Voter state tracking interface
@@ -25,16 +35,57 @@ export interface VoterState {
   viewState: "waiting" | "voting" | "voted" | "session-complete";
 }
 
+// Where a participant's "who are you?" roster claim stands
+export type IdentityStatus = "unclaimed" | "pending" | "approved" | "rejected";
+
+// A participant's claim to be one of the roster names in awards.csv
+export interface IdentityClaim {
+  participantId: string;
+  name: string;
+  status: "pending" | "approved";
+  requestedAt: number | null;
+}
+
+// A single instant-runoff counting round
+export interface RunoffRound {
+  round: number;
+  tallies: Record<string, number>; // Votes per remaining nominee this round
+  eliminated: string[]; // Nominees dropped at the end of this round
+  exhausted: number; // Ballots with no remaining preferences
+}
+
+// One completed voting round of a category (the main vote or a runoff)
+export interface CategoryRound {
+  round: number;
+  type: "main" | "runoff";
+  sessionId: string;
+  votingMode: VotingMode;
+  options: string[];
+  results: Record<string, number>;
+  rounds?: RunoffRound[];
+  winner: string | string[];
+  isTie: boolean;
+  totalVotes: number;
+  startedAt: number;
+  completedAt: number;
+}
+
 // Category result interface for winner reveal system
 export interface CategoryResult {
   categoryId: string;
   title: string;
   description: string;
-  results: Record<string, number>;
+  results: Record<string, number>; // First preferences in ranked mode
   winner: string | string[]; // Handle ties
   totalVotes: number;
   revealed: boolean;
   revealedAt?: number;
+  revealAt?: number; // Server time when every screen shows the winner
+  votingMode?: VotingMode;
+  rounds?: RunoffRound[]; // Instant-runoff elimination history (ranked mode)
+  maxSelections?: number;
+  ballotCount?: number; // Number of voters (approval results count picks)
+  history?: CategoryRound[];
 }
 
 // Confirmation modal props interface
@@ -60,6 +111,8 @@ export interface Category {
   description: string;
   options: string[];
   status: "not-started" | "active" | "completed" | "revealed";
+  votingMode: VotingMode;
+  maxSelections?: number;
   results?: Record<string, number>;
   winner?: string | string[];
   totalVotes?: number;
@@ -67,6 +120,205 @@ export interface Category {
   completedAt?: number;
   revealedAt?: number;
   revealed?: boolean; // For easier reveal state checking
+  rounds?: RunoffRound[];
+  history?: CategoryRound[];
+}
+
+// Fields the admin category editor can change
+export interface CategoryDraft {
+  title: string;
+  description: string;
+  options: string[]; // Nominees, in ballot order
+}
+
+// Something an admin should know about an uploaded event before importing it
+export interface ImportIssue {
+  severity: "error" | "warning"; // Errors block the import
+  type:
+    | "parse-error"
+    | "no-categories"
+    | "missing-title"
+    | "invalid-category"
+    | "duplicate-id"
+    | "empty-description"
+    | "unknown-voting-mode";
+  message: string;
+  categoryId?: string;
+}
+
+// A category as it would be imported
+export interface ImportedCategory extends CategoryDraft {
+  id: string; // Slug of the title
+  votingMode: VotingMode;
+  maxSelections?: number;
+  exists: boolean; // Already saved; merging updates it
+  locked: boolean; // Already voted on; merging skips it
+}
+
+// Parsed CSV/JSON event definition, shown before anything is applied
+export interface EventImportPreview {
+  format: "csv" | "json";
+  roster: string[];
+  categories: ImportedCategory[];
+  issues: ImportIssue[];
+  canImport: boolean;
+}
+
+export type EventImportMode = "merge" | "replace";
+
+// Category titles touched by an import
+export interface EventImportResult {
+  mode: EventImportMode;
+  added: string[];
+  updated: string[];
+  skipped: string[];
+  rosterSize: number;
+}
+
+// "active" once the invite link has been used to join
+export type InviteStatus = "unused" | "active" | "revoked";
+
+// Single-use voter invite for one roster member
+export interface VoterInvite {
+  token: string; // Carried in the participant link as ?invite=
+  name: string; // Roster name the invite vouches for
+  status: InviteStatus;
+  createdAt: number;
+  usedAt?: number;
+  revokedAt?: number;
+}
+
+// Invites and whether only invite links can vote, for the admin dashboard
+export interface InvitesUpdate {
+  enabled: boolean;
+  invites: VoterInvite[];
+}
+
+// Why a participant link was turned away in invite-only mode
+export type InviteErrorCode = "invite-required" | "invite-revoked";
+
+// Why the server turned a ballot away (submit-vote and change-vote)
+export type VoteErrorCode =
+  | "invalid-ballot" // Malformed payload
+  | "no-active-session"
+  | "voting-paused"
+  | "unknown-category" // Not the category open for voting
+  | "unknown-option" // A pick that isn't on the category's shortlist
+  | "invalid-ranking"
+  | "invalid-selections"
+  | "too-many-selections"
+  | "identity-required"
+  | "self-vote"
+  | "device-required"
+  | "already-voted"
+  | "device-already-voted"
+  | "not-voted-yet" // Changing a vote that was never cast
+  | "invite-required"; // Invite-only voting without a usable invite
+
+export interface VoteError {
+  code: VoteErrorCode;
+  message: string; // Server's wording, for logs and unknown codes
+  maxSelections?: number; // Set on "too-many-selections"
+}
+
+// Proof the server recorded a ballot; replaying its vote ID returns the same receipt
+export interface VoteReceipt {
+  voteId: string;
+  categoryId: string;
+  recordedAt: number; // When the ballot was first recorded
+}
+
+// submit-vote's acknowledgement
+export type VoteAck =
+  | { status: "recorded"; receipt: VoteReceipt; duplicate?: boolean }
+  | { status: "rejected"; error: VoteError };
+
+// Where a ballot stands from the phone's side: no acknowledgement yet means
+// "retrying" with the same vote ID until the server answers
+export type VoteSubmissionStatus =
+  | "sending"
+  | "recorded"
+  | "rejected"
+  | "retrying";
+
+// One place in a staged reveal, as produced by getTopResults (tied nominees
+// share the place and are joined with " & ")
+export interface RevealPlacing {
+  position: number;
+  name: string;
+  votes: number;
+  percentage: number;
+  isTie: boolean;
+}
+
+// A runner-up place shown on every screen ahead of the winner
+export interface RunnerUpReveal extends RevealPlacing {
+  categoryId: string;
+  title: string;
+  remaining: number; // Runner-up places still to come before the winner
+}
+
+// "away" keeps a dropped participant's place for the grace period, then "gone"
+export type PresenceStatus = "online" | "away" | "gone";
+
+// Participant counts for the admin dashboard
+export interface PresenceUpdate {
+  connected: number; // Online right now
+  away: number; // Dropped, still within the grace period
+  joined: number; // Everyone who has joined this event
+}
+
+// Live turnout for the admin: who is still to vote, never what anyone picked
+export interface TurnoutUpdate {
+  categoryId: string | null; // Null when no category is live
+  voted: number;
+  total: number; // Online and away participants; gone ones aren't expected to vote
+  waiting: { id: string; name: string; presence: PresenceStatus }[]; // Haven't voted yet
+  autoClose: boolean; // Stop the category automatically at 100% turnout
+}
+
+// Database migrations, as GET /api/schema-version reports them to the admin
+export interface SchemaMigration {
+  version: number;
+  name: string;
+  description: string;
+  appliedAt?: string; // Only on applied migrations
+}
+
+export interface SchemaStatus {
+  currentVersion: number;
+  applied: SchemaMigration[];
+  pending: SchemaMigration[];
+}
+
+// What the projector view is showing; "idle" is the join splash
+export type StageScreen = "idle" | "voting" | "closed" | "runner-up" | "reveal";
+
+// Read-only stage snapshot: turnout but never vote counts
+export interface StageState {
+  screen: StageScreen;
+  session?: {
+    categoryId: string;
+    title: string;
+    description: string;
+    phase?: VotingSession["phase"];
+    endTime?: number;
+    remainingTime?: number;
+    runoffRound?: number;
+  };
+  turnout?: {
+    voted: number;
+    total: number;
+  };
+  result?: {
+    categoryId: string;
+    title: string;
+    description: string;
+    winner: string | string[];
+    isTie: boolean;
+    revealAt: number; // Server time the winner replaces the suspense screen
+  };
+  placing?: RunnerUpReveal;
 }
 
 // Admin control interface for category management
@@ -82,21 +334,86 @@ export interface AdminCategoryControl {
 // Socket event interfaces for type safety
 export interface SocketEvents {
   // Client to server events
-  "join-voting": (data: { participantId?: string; name?: string }) => void;
+  "join-voting": (data: {
+    participantId?: string;
+    name?: string;
+    inviteToken?: string; // Required while invite-only voting is on
+  }) => void;
   "join-admin": () => void;
-  "submit-vote": (data: { categoryId: string; option: string }) => void;
-  "start-category": (data: { categoryId: string }) => void;
+  "submit-vote": (data: {
+    categoryId: string;
+    option: string;
+    ranking?: string[];
+    selections?: string[];
+    deviceId?: string;
+    voteId?: string; // Idempotency key: replaying the same ballot is confirmed, not recounted
+  }, ack?: (response: VoteAck) => void) => void;
+  "start-category": (data: {
+    categoryId: string;
+    votingMode?: VotingMode;
+    maxSelections?: number;
+    duration?: number; // Countdown in seconds, DEFAULT_VOTING_DURATION if omitted
+  }) => void;
   "stop-category": (data: { categoryId: string }) => void;
+  "pause-category": (data: { categoryId: string }) => void;
+  "resume-category": (data: { categoryId: string }) => void;
   "reveal-winner": (data: { categoryId: string }) => void;
+  "unreveal-category": (data: { categoryId: string }) => void;
+  "reopen-category": (data: { categoryId: string; duration?: number }) => void;
+  "start-runoff": (data: { categoryId: string; duration?: number }) => void;
+  "reveal-runner-up": (data: {
+    categoryId: string;
+    places?: number; // Runner-up places in the sequence, fixed on the first step
+  }) => void;
+  "join-stage": () => void;
+  "set-stage-screen": (data: { screen: "idle" }) => void; // Back to the join splash
+  "set-auto-close": (data: { enabled: boolean }) => void;
+  "claim-identity": (data: { name: string }) => void;
+  ping: (ack?: () => void) => void; // Participant heartbeat
+  "resolve-identity-claim": (data: {
+    participantId: string;
+    approved: boolean;
+  }) => void;
 
   // Server to client events
+  "server-time": (serverTime: number) => void;
   "participant-info": (data: { id: string; name: string }) => void;
   "voting-session-update": (session: VotingSession) => void;
   "category-started": (session: VotingSession) => void;
   "category-stopped": (session: VotingSession) => void;
+  "category-paused": (session: VotingSession) => void;
+  "category-resumed": (session: VotingSession) => void;
+  "category-reopened": (session: VotingSession) => void; // Completed category voting again, votes kept
   "winner-revealed": (result: CategoryResult) => void;
-  "vote-confirmed": (data: { option: string; categoryId: string }) => void;
-  "participant-count": (count: number) => void;
+  "winner-hidden": (data: { categoryId: string }) => void;
+  "runner-up-revealed": (placing: RunnerUpReveal) => void;
+  "vote-error": (
+    error: VoteError & {
+      action: "submit-vote" | "change-vote";
+      categoryId: string | null;
+      voteId?: string;
+    }
+  ) => void;
+  "vote-confirmed": (data: {
+    option: string;
+    categoryId: string;
+    ranking?: string[];
+    selections?: string[];
+    voteId?: string;
+  }) => void;
+  "participant-count": (count: number) => void; // Participants connected now
+  "presence-update": (data: PresenceUpdate) => void;
+  "invites-update": (data: InvitesUpdate) => void;
+  "invite-error": (data: { code: InviteErrorCode }) => void;
+  "stage-update": (state: StageState) => void;
+  "turnout-update": (data: TurnoutUpdate) => void;
+  roster: (data: { names: string[]; taken: string[] }) => void;
+  "identity-status": (data: { status: IdentityStatus; name?: string }) => void;
+  "identity-claims": (data: {
+    pending: IdentityClaim[];
+    confirmed: number;
+    rosterSize: number;
+  }) => void;
   "admin-status": (data: {
     currentSession: VotingSession | null;
     participantCount: number;
@@ -111,6 +428,7 @@ export interface WaitingStateMessages {
   betweenCategories: string;
   sessionComplete: string;
   votingActive: string;
+  votingPaused: string;
   voteSubmitted: string;
 }
 